@@ -0,0 +1,143 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { applyTypeHints, CsvDelimiter, CsvTypeHint, parseCsv } from "./csv";
+import { GoogleApi } from "./google/google";
+import { quoteSheetName } from "./google/a1";
+import { GoogleSheetsApi } from "./google/sheets";
+
+interface CriarAbaParams {
+  sheetId: string;
+  title: string;
+
+  // posição da aba (0 = primeira; padrão: última)
+  index?: number;
+
+  rowCount?: number;
+  columnCount?: number;
+
+  // CSV gravado a partir de A1 da nova aba
+  content?: string;
+
+  // delimitador do CSV (padrão: detecta entre `,` `;` e tab)
+  delimiter?: CsvDelimiter | "auto";
+
+  // tipo por coluna (nome do cabeçalho ou letra): { "cep": "string", "valor": "number" }
+  types?: Record<string, CsvTypeHint> | string;
+}
+
+/** Número opcional vindo de formulário ("3" ou 3); inválido -> NaN. */
+function optionalNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  return Number(value);
+}
+
+async function criarAba(params: CriarAbaParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.sheetId) {
+      console.log(docgo.result(false, null, "sheetId é obrigatório"));
+      return;
+    }
+
+    const title = params.title?.trim();
+    if (!title) {
+      console.log(docgo.result(false, null, "title é obrigatório"));
+      return;
+    }
+
+    const index = optionalNumber(params.index);
+    const rowCount = optionalNumber(params.rowCount);
+    const columnCount = optionalNumber(params.columnCount);
+    for (const [name, value] of Object.entries({
+      index,
+      rowCount,
+      columnCount,
+    })) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        console.log(
+          docgo.result(false, null, `${name} deve ser um inteiro positivo`)
+        );
+        return;
+      }
+    }
+
+    let types: Record<string, CsvTypeHint> = {};
+    if (params.types) {
+      try {
+        types =
+          typeof params.types === "string"
+            ? JSON.parse(params.types)
+            : params.types;
+      } catch {
+        console.log(docgo.result(false, null, "types deve ser um JSON válido"));
+        return;
+      }
+    }
+
+    let values: (string | number | boolean)[][] = [];
+    if (params.content && params.content.trim().length > 0) {
+      try {
+        values = applyTypeHints(
+          parseCsv(params.content, { delimiter: params.delimiter }),
+          types
+        );
+      } catch (err: any) {
+        console.log(docgo.result(false, null, err.message));
+        return;
+      }
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const sheets = new GoogleSheetsApi(google);
+
+    const existing = await sheets.getSheets(params.sheetId);
+    if (existing.some((s) => s.title === title)) {
+      console.log(
+        docgo.result(false, null, `já existe uma aba com o nome "${title}"`)
+      );
+      return;
+    }
+
+    const sheet = await sheets.addSheet(params.sheetId, title, {
+      index,
+      rowCount,
+      columnCount,
+    });
+
+    let updates: any = null;
+    if (values.length > 0) {
+      updates = await sheets.valuesUpdate(
+        params.sheetId,
+        `${quoteSheetName(title)}!A1`,
+        values
+      );
+    }
+
+    console.log(
+      docgo.result(true, {
+        spreadsheetId: params.sheetId,
+        sheet,
+        updates,
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default criarAba;
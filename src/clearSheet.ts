@@ -0,0 +1,93 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import { quoteSheetName } from "./google/a1";
+import { GoogleSheetsApi } from "./google/sheets";
+
+interface LimparAbaParams {
+  sheetId: string;
+  sheetName: string;
+
+  // limpa só este range da aba (ex.: "A2:Z"); padrão: a aba inteira
+  range?: string;
+
+  // precisa ser true: os valores são apagados (formatação é mantida)
+  confirm: boolean;
+}
+
+async function limparAba(params: LimparAbaParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.sheetId) {
+      console.log(docgo.result(false, null, "sheetId é obrigatório"));
+      return;
+    }
+
+    if (!params.sheetName) {
+      console.log(docgo.result(false, null, "sheetName é obrigatório"));
+      return;
+    }
+
+    // a aba vem de sheetName: range só com células ("A2:Z")
+    if (params.range?.includes("!")) {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          "range não deve incluir o nome da aba; informe a aba em sheetName (ex.: A2:Z)"
+        )
+      );
+      return;
+    }
+
+    // aceita apenas true (ou "true", vindo de formulários)
+    if (params.confirm !== true && String(params.confirm) !== "true") {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          "os valores da aba serão apagados. Informe confirm = true para confirmar"
+        )
+      );
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const sheets = new GoogleSheetsApi(google);
+
+    const sheet = await sheets.findSheet(params.sheetId, params.sheetName);
+    const range = params.range?.trim()
+      ? `${quoteSheetName(sheet.title)}!${params.range.trim()}`
+      : quoteSheetName(sheet.title);
+
+    const result = await sheets.valuesClear(params.sheetId, range);
+
+    console.log(
+      docgo.result(true, {
+        spreadsheetId: params.sheetId,
+        sheetId: sheet.sheetId,
+        title: sheet.title,
+        clearedRange: result?.clearedRange ?? range,
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default limparAba;
@@ -0,0 +1,225 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { parseCsv } from "./csv";
+import { GoogleApi } from "./google/google";
+import { parseA1, quoteSheetName } from "./google/a1";
+import { GoogleSheetsApi, ValueRenderOption } from "./google/sheets";
+import {
+  buildSnapshot,
+  DiffRecord,
+  diffRecords,
+  SheetSnapshot,
+  tableToRecords,
+} from "./google/sheetDiff";
+
+interface CompararPlanilhaParams {
+  sheetId: string;
+
+  // aba a comparar (padrão: a primeira)
+  sheetName?: string;
+
+  // sem range: a aba inteira (cabeçalho na primeira linha do range)
+  range?: string;
+
+  // colunas que identificam a linha (ex.: ["id"] ou "cliente,mes")
+  keys?: string[] | string;
+
+  // versão anterior: snapshot da execução anterior, matriz, lista de objetos,
+  // resposta do values.get ou CSV (objeto ou JSON)
+  previous?: unknown;
+
+  // só os hashes por linha da execução anterior: { "42": "9f86d081884c7d65" }
+  hashes?: Record<string, string> | string;
+
+  // inclui as linhas no snapshot retornado (padrão: true); sem elas, a
+  // próxima comparação não traz os valores anteriores das células
+  includeRows?: boolean;
+
+  // padrão: FORMATTED_VALUE (valores como exibidos na planilha)
+  valueRenderOption?: ValueRenderOption;
+}
+
+/** Texto em JSON (objeto/lista) é interpretado; o resto é CSV. */
+function parseJsonOrCsv(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  const text = value.trim();
+  if (text.startsWith("{") || text.startsWith("[")) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      // não é JSON: segue como CSV
+    }
+  }
+  return parseCsv(text);
+}
+
+/**
+ * Normaliza a versão anterior em snapshot.
+ *
+ * @throws Se o formato não for reconhecido.
+ */
+function toSnapshot(
+  previous: unknown,
+  keys: string[]
+): Partial<SheetSnapshot> & Pick<SheetSnapshot, "hashes"> {
+  const value = parseJsonOrCsv(previous) as any;
+
+  // snapshot retornado por compararPlanilha
+  if (value && !Array.isArray(value) && (value.hashes || value.rows)) {
+    return {
+      keys: value.keys,
+      headers: value.headers,
+      hashes: value.hashes ?? {},
+      rows: value.rows,
+    };
+  }
+
+  // resposta do values.get / lerPlanilha
+  const table = value && !Array.isArray(value) ? value.values : value;
+  if (!Array.isArray(table)) {
+    throw new Error(
+      "previous deve ser um snapshot, uma matriz, uma lista de objetos ou um CSV"
+    );
+  }
+
+  if (table.every((r) => Array.isArray(r))) {
+    const { headers, records } = tableToRecords(table);
+    return buildSnapshot(
+      headers,
+      records.map((r) => r.values),
+      keys
+    );
+  }
+
+  if (table.every((r) => r && typeof r === "object")) {
+    const records = table as DiffRecord[];
+    const headers = Array.from(new Set(records.flatMap((r) => Object.keys(r))));
+    return buildSnapshot(headers, records, keys);
+  }
+
+  throw new Error(
+    "previous deve ser um snapshot, uma matriz, uma lista de objetos ou um CSV"
+  );
+}
+
+async function compararPlanilha(params: CompararPlanilhaParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.sheetId) {
+      console.log(docgo.result(false, null, "sheetId é obrigatório"));
+      return;
+    }
+
+    let hashes: Record<string, string> = {};
+    if (params.hashes) {
+      try {
+        hashes =
+          typeof params.hashes === "string"
+            ? JSON.parse(params.hashes)
+            : params.hashes;
+      } catch {
+        console.log(
+          docgo.result(false, null, "hashes deve ser um JSON válido")
+        );
+        return;
+      }
+    }
+
+    let keys = (
+      Array.isArray(params.keys) ? params.keys : (params.keys ?? "").split(",")
+    )
+      .map((k) => String(k).trim())
+      .filter(Boolean);
+
+    let previous: ReturnType<typeof toSnapshot> = { hashes: {} };
+    if (params.previous) {
+      // as chaves de um snapshot valem quando keys não é informado
+      const snapshot = parseJsonOrCsv(params.previous) as any;
+      if (keys.length === 0 && Array.isArray(snapshot?.keys)) {
+        keys = snapshot.keys;
+      }
+
+      try {
+        previous = toSnapshot(snapshot, keys);
+      } catch (err: any) {
+        console.log(docgo.result(false, null, err.message));
+        return;
+      }
+    }
+    previous.hashes = { ...hashes, ...previous.hashes };
+
+    if (keys.length === 0) {
+      console.log(docgo.result(false, null, "keys é obrigatório"));
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const sheets = new GoogleSheetsApi(google);
+
+    let range = params.range?.trim();
+    if (!range) {
+      range = (await sheets.getFullRange(params.sheetId, params.sheetName))
+        .range;
+    } else if (params.sheetName && !range.includes("!")) {
+      range = `${quoteSheetName(params.sheetName)}!${range}`;
+    }
+
+    const result = await sheets.getValues(params.sheetId, range, {
+      valueRenderOption: params.valueRenderOption,
+    });
+
+    // linha/coluna inicial do range retornado (ex.: "Vendas!B3:F20")
+    const start = parseA1(result?.range ?? range);
+    const current = tableToRecords(
+      result?.values ?? [],
+      start?.startRowIndex ?? 0
+    );
+
+    let diff;
+    try {
+      diff = diffRecords(previous, current, keys, start?.startColumnIndex ?? 0);
+    } catch (err: any) {
+      console.log(docgo.result(false, null, err.message));
+      return;
+    }
+
+    const includeRows =
+      params.includeRows === undefined ||
+      String(params.includeRows) === "" ||
+      params.includeRows === true ||
+      String(params.includeRows) === "true";
+    if (!includeRows) delete diff.snapshot.rows;
+
+    console.log(
+      docgo.result(true, {
+        range: result?.range ?? range,
+        summary: {
+          added: diff.added.length,
+          removed: diff.removed.length,
+          modified: diff.modified.length,
+          unchanged: diff.unchanged,
+        },
+        ...diff,
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default compararPlanilha;
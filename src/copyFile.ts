@@ -0,0 +1,61 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import { GoogleDriveApi } from "./google/drive";
+
+interface CopiarArquivoParams {
+  fileId: string;
+
+  // nome da cópia (padrão: o Google usa "Cópia de <nome>")
+  name?: string;
+
+  // pasta de destino (padrão: a mesma pasta do original)
+  folderId?: string;
+}
+
+async function copiarArquivo(params: CopiarArquivoParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.fileId) {
+      console.log(docgo.result(false, null, "fileId é obrigatório"));
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const drive = new GoogleDriveApi(google);
+
+    const body: { name?: string; parents?: string[] } = {};
+    if (params.name) body.name = params.name;
+    if (params.folderId) body.parents = [params.folderId];
+
+    const file = await drive.copy(params.fileId, body);
+
+    console.log(
+      docgo.result(true, {
+        id: file.id,
+        name: file.name,
+        sourceId: params.fileId,
+        file,
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default copiarArquivo;
@@ -1,12 +1,16 @@
 import docgo from "docgo-sdk";
 
-import { getServiceAccountCredentials } from "./utils";
+import { describeError, getServiceAccountCredentials } from "./utils";
 import { GoogleApi } from "./google/google";
 import { GoogleDriveApi } from "./google/drive";
-import { CreateFileParams } from "./types";
+import { CreateFileParams, DocumentFormat } from "./types";
 import { GoogleDocsApi } from "./google/docs";
 
-async function criarDocumento(params: CreateFileParams): Promise<void> {
+interface CriarDocumentoParams extends CreateFileParams {
+  format?: DocumentFormat;
+}
+
+async function criarDocumento(params: CriarDocumentoParams): Promise<void> {
   try {
     if (
       Array.isArray(params) &&
@@ -21,6 +25,13 @@ async function criarDocumento(params: CreateFileParams): Promise<void> {
       return;
     }
 
+    if (params.format && !["text", "markdown"].includes(params.format)) {
+      console.log(
+        docgo.result(false, null, 'format deve ser "text" ou "markdown"')
+      );
+      return;
+    }
+
     const credentials = getServiceAccountCredentials();
     if (!credentials) {
       console.log(docgo.result(false, null, "credencial é obrigatório"));
@@ -47,7 +58,9 @@ async function criarDocumento(params: CreateFileParams): Promise<void> {
 
     var updates;
     if (params.content && params.content.trim().length > 0) {
-      updates = await docs.updateById(created.id, params.content);
+      updates = await docs.updateById(created.id, params.content, {
+        format: params.format,
+      });
     }
 
     console.log(
@@ -59,7 +72,8 @@ async function criarDocumento(params: CreateFileParams): Promise<void> {
       })
     );
   } catch (err: any) {
-    console.log(docgo.result(false, null, err?.message ?? String(err)));
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
   }
 }
 
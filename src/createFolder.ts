@@ -0,0 +1,65 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import { GoogleDriveApi } from "./google/drive";
+
+interface CriarPastaParams {
+  // pasta (ou Drive compartilhado) onde a pasta será criada
+  sharedDriveId: string;
+
+  // nome ou caminho ("Clientes/ACME/2026"); pastas existentes são reaproveitadas
+  name: string;
+}
+
+async function criarPasta(params: CriarPastaParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.sharedDriveId) {
+      console.log(docgo.result(false, null, "sharedDriveId é obrigatório"));
+      return;
+    }
+
+    if (!params.name?.replace(/\//g, "").trim()) {
+      console.log(docgo.result(false, null, "name é obrigatório"));
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const drive = new GoogleDriveApi(google);
+
+    const { folder, created } = await drive.ensureFolderPath(
+      params.name,
+      params.sharedDriveId
+    );
+
+    console.log(
+      docgo.result(true, {
+        id: folder.id,
+        name: folder.name,
+        folder,
+        created,
+        // false quando o caminho inteiro já existia
+        isNew: created.length > 0,
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default criarPasta;
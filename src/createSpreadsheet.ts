@@ -1,12 +1,114 @@
 import docgo from "docgo-sdk";
 
-import { getServiceAccountCredentials, parseCsv } from "./utils";
+import { describeError, getServiceAccountCredentials } from "./utils";
+import {
+  applyTypeHints,
+  convertValue,
+  CsvDelimiter,
+  CsvTypeHint,
+  parseCsv,
+} from "./csv";
 import { GoogleApi } from "./google/google";
 import { GoogleDriveApi } from "./google/drive";
-import { GoogleSheetsApi } from "./google/sheets";
+import { quoteSheetName } from "./google/a1";
+import { GoogleSheetsApi, objectsToRows } from "./google/sheets";
+import {
+  buildFormatRequests,
+  headerFormatSpec,
+  TextStyle,
+} from "./google/sheetFormat";
 import { CreateFileParams } from "./types";
 
-async function criarPlanilha(params: CreateFileParams): Promise<void> {
+type Cell = string | number | boolean;
+
+// CSV, lista de objetos (cabeçalho = chaves) ou matriz
+type TabContent = string | Record<string, unknown>[] | Cell[][];
+
+type ColumnTypes = Record<string, CsvTypeHint>;
+
+interface CriarPlanilhaParams extends Omit<CreateFileParams, "content"> {
+  // conteúdo da primeira aba (CSV, objetos ou matriz; array ou JSON)
+  content?: TabContent;
+
+  // uma aba por chave: { "Resumo": "mes;total\n10;1500", "Vendas": [{ ... }] }
+  tabs?: Record<string, TabContent> | string;
+
+  // delimitador do CSV (padrão: detecta entre `,` `;` e tab)
+  delimiter?: CsvDelimiter | "auto";
+
+  // tipo por coluna (nome do cabeçalho ou letra): { "cep": "string", "valor": "number" };
+  // ou por aba: { "Vendas": { "valor": "number" } }
+  types?: Record<string, CsvTypeHint | ColumnTypes> | string;
+
+  // estiliza a primeira linha do CSV: true (estilo padrão) ou
+  // { "bold": true, "background": "#D9D9D9", "fontColor": "#000000" }
+  headerStyle?: boolean | TextStyle | string;
+
+  // congela a linha de cabeçalho (padrão: true com `tabs`, objetos ou headerStyle)
+  freezeHeader?: boolean;
+}
+
+/**
+ * Converte o conteúdo de uma aba em linhas x colunas. Objetos viram
+ * cabeçalho (união das chaves, na ordem em que aparecem) + linhas.
+ *
+ * @returns `values` e se o conteúdo veio como objetos.
+ */
+function tabToValues(
+  content: TabContent,
+  types: ColumnTypes,
+  delimiter?: CriarPlanilhaParams["delimiter"]
+): { values: Cell[][]; fromObjects: boolean } {
+  let value: unknown = content;
+
+  if (typeof value === "string" && value.trim().startsWith("[")) {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      // não é JSON: segue como CSV
+    }
+  }
+
+  if (typeof value === "string") {
+    if (value.trim().length === 0) return { values: [], fromObjects: false };
+    return {
+      values: applyTypeHints(parseCsv(value, { delimiter }), types),
+      fromObjects: false,
+    };
+  }
+
+  if (!Array.isArray(value)) {
+    throw new Error(
+      "o conteúdo deve ser um CSV, uma lista de objetos ou uma matriz"
+    );
+  }
+
+  if (value.every((r) => Array.isArray(r))) {
+    return { values: value as Cell[][], fromObjects: false };
+  }
+
+  if (!value.every((r) => r && typeof r === "object" && !Array.isArray(r))) {
+    throw new Error(
+      "o conteúdo deve ser um CSV, uma lista de objetos ou uma matriz"
+    );
+  }
+
+  const records = (value as Record<string, unknown>[]).map((record) =>
+    Object.fromEntries(
+      Object.entries(record).map(([k, v]) => [
+        k,
+        typeof v === "string" && types[k] ? convertValue(v, types[k]) : v,
+      ])
+    )
+  );
+  const headers = Array.from(new Set(records.flatMap((r) => Object.keys(r))));
+  return {
+    values: [headers, ...objectsToRows(headers, records)],
+    fromObjects: true,
+  };
+}
+
+async function criarPlanilha(params: CriarPlanilhaParams): Promise<void> {
   try {
     if (
       Array.isArray(params) &&
@@ -21,6 +123,126 @@ async function criarPlanilha(params: CreateFileParams): Promise<void> {
       return;
     }
 
+    let types: Record<string, CsvTypeHint | ColumnTypes> = {};
+    if (params.types) {
+      try {
+        types =
+          typeof params.types === "string"
+            ? JSON.parse(params.types)
+            : params.types;
+      } catch {
+        console.log(docgo.result(false, null, "types deve ser um JSON válido"));
+        return;
+      }
+    }
+
+    // tipos da aba: os da chave com o nome da aba ou os globais
+    const typesFor = (tab: string | null): ColumnTypes => {
+      const own = tab !== null ? types[tab] : undefined;
+      if (own && typeof own === "object") return own;
+      return Object.fromEntries(
+        Object.entries(types).filter(([, v]) => typeof v === "string")
+      ) as ColumnTypes;
+    };
+
+    // true / "true": estilo padrão; objeto ou JSON: estilo personalizado
+    let headerStyle: TextStyle | null = null;
+    if (params.headerStyle === true || String(params.headerStyle) === "true") {
+      headerStyle = {};
+    } else if (params.headerStyle && typeof params.headerStyle === "object") {
+      headerStyle = params.headerStyle;
+    } else if (
+      typeof params.headerStyle === "string" &&
+      params.headerStyle.trim().startsWith("{")
+    ) {
+      try {
+        headerStyle = JSON.parse(params.headerStyle);
+      } catch {
+        console.log(
+          docgo.result(false, null, "headerStyle deve ser um JSON válido")
+        );
+        return;
+      }
+    }
+
+    let tabs: Record<string, TabContent> | null = null;
+    if (params.tabs) {
+      try {
+        tabs =
+          typeof params.tabs === "string"
+            ? JSON.parse(params.tabs)
+            : params.tabs;
+      } catch {
+        console.log(docgo.result(false, null, "tabs deve ser um JSON válido"));
+        return;
+      }
+
+      if (
+        !tabs ||
+        typeof tabs !== "object" ||
+        Array.isArray(tabs) ||
+        Object.keys(tabs).length === 0
+      ) {
+        console.log(
+          docgo.result(
+            false,
+            null,
+            'tabs deve ser um objeto { "nome da aba": conteúdo }'
+          )
+        );
+        return;
+      }
+
+      const invalid = Object.keys(tabs).filter((t) => !t.trim());
+      if (invalid.length > 0) {
+        console.log(
+          docgo.result(false, null, "os nomes das abas não podem ser vazios")
+        );
+        return;
+      }
+
+      const titles = Object.keys(tabs).map((t) => t.trim().toLowerCase());
+      if (new Set(titles).size !== titles.length) {
+        console.log(
+          docgo.result(false, null, "os nomes das abas devem ser diferentes")
+        );
+        return;
+      }
+    }
+
+    // sem `tabs`, `content` vai para a primeira aba (nome padrão do Sheets)
+    let contents: {
+      title: string | null;
+      values: Cell[][];
+      fromObjects: boolean;
+    }[];
+    try {
+      contents = tabs
+        ? Object.entries(tabs).map(([title, content]) => ({
+            title: title.trim(),
+            ...tabToValues(content, typesFor(title), params.delimiter),
+          }))
+        : [
+            {
+              title: null,
+              ...(params.content
+                ? tabToValues(params.content, typesFor(null), params.delimiter)
+                : { values: [], fromObjects: false }),
+            },
+          ];
+    } catch (err: any) {
+      console.log(docgo.result(false, null, err.message));
+      return;
+    }
+
+    const freezeHeader =
+      params.freezeHeader === undefined || String(params.freezeHeader) === ""
+        ? tabs !== null ||
+          contents.some((c) => c.fromObjects) ||
+          headerStyle !== null
+        : params.freezeHeader === true ||
+          String(params.freezeHeader) === "true";
+
     const credentials = getServiceAccountCredentials();
     if (!credentials) {
       console.log(docgo.result(false, null, "credencial é obrigatório"));
@@ -45,14 +267,90 @@ async function criarPlanilha(params: CreateFileParams): Promise<void> {
       return;
     }
 
-    let updates: any = null;
+    // 1) abas: renomeia a primeira e cria as demais, em um único batchUpdate
+    const [first] = await sheets.getSheets(fileId);
+    const frozen = (values: Cell[][]) =>
+      freezeHeader && values.length > 0 ? { frozenRowCount: 1 } : undefined;
+
+    const requests: unknown[] = [];
+    const firstTitle = contents[0].title ?? first.title;
+    const firstFrozen = frozen(contents[0].values);
+    if (firstTitle !== first.title || firstFrozen) {
+      requests.push({
+        updateSheetProperties: {
+          properties: {
+            sheetId: first.sheetId,
+            title: firstTitle,
+            ...(firstFrozen ? { gridProperties: firstFrozen } : {}),
+          },
+          fields: [
+            "title",
+            ...(firstFrozen ? ["gridProperties.frozenRowCount"] : []),
+          ].join(","),
+        },
+      });
+    }
+    for (const tab of contents.slice(1)) {
+      const gridProperties = frozen(tab.values);
+      requests.push({
+        addSheet: {
+          properties: {
+            title: tab.title,
+            ...(gridProperties ? { gridProperties } : {}),
+          },
+        },
+      });
+    }
+
+    const tabsResponse =
+      requests.length > 0 ? await sheets.batchUpdate(fileId, requests) : null;
+
+    const createdSheets = contents.map((tab, i) => {
+      const added = tabsResponse?.replies?.find(
+        (r: any) => r?.addSheet?.properties?.title === tab.title
+      );
+      return {
+        sheetId: i === 0 ? first.sheetId : added?.addSheet?.properties?.sheetId,
+        title: i === 0 ? firstTitle : (tab.title as string),
+        rows: tab.values.length,
+        columns: Math.max(0, ...tab.values.map((r) => r.length)),
+        values: tab.values,
+      };
+    });
+
+    // 2) dados de todas as abas em um único values.batchUpdate
+    const data = createdSheets
+      .filter((t) => t.values.length > 0)
+      .map((t) => ({
+        range: `${quoteSheetName(t.title)}!A1`,
+        values: t.values,
+      }));
 
-    // Se for planilha + vier CSV, preenche a partir de A1
-    if (params.content && params.content.trim().length > 0) {
-      const values = parseCsv(params.content);
+    const updates =
+      data.length > 0 ? await sheets.valuesBatchUpdate(fileId, data) : null;
 
-      // range A1 suficiente (Sheets expande automaticamente)
-      updates = await sheets.valuesUpdate(fileId, "A1", values);
+    // 3) cabeçalhos formatados (depois dos dados, por causa do ajuste de colunas)
+    let formatting: any = null;
+    if (headerStyle && data.length > 0) {
+      const meta = {
+        sheets: createdSheets.map((t) => ({
+          properties: { sheetId: t.sheetId, title: t.title },
+        })),
+      };
+      const formatRequests = createdSheets
+        .filter((t) => t.values.length > 0)
+        .flatMap((t) =>
+          buildFormatRequests(
+            meta,
+            headerFormatSpec(
+              t.values[0].length,
+              headerStyle!,
+              t.title,
+              freezeHeader
+            )
+          )
+        );
+      formatting = await sheets.batchUpdate(fileId, formatRequests);
     }
 
     console.log(
@@ -61,11 +359,14 @@ async function criarPlanilha(params: CreateFileParams): Promise<void> {
         fileId,
         title: params.titulo,
         created,
+        sheets: createdSheets.map(({ values, ...tab }) => tab),
         updates,
+        formatting,
       })
     );
   } catch (err: any) {
-    console.log(docgo.result(false, null, err?.message ?? String(err)));
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
   }
 }
 
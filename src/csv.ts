@@ -0,0 +1,393 @@
+/**
+ * Leitura e geração de CSV conforme a RFC 4180.
+ *
+ * - campos entre aspas podem conter delimitador, quebras de linha e aspas
+ *   escapadas (`""`)
+ * - delimitador configurável ou detectado automaticamente (`,` `;` `\t`),
+ *   cobrindo exportações do Excel em pt-BR (`;`)
+ * - BOM UTF-8 no início do arquivo é descartado
+ * - dicas de tipo por coluna para a gravação no Google Sheets
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc4180
+ */
+
+import { columnIndexToLetters } from "./google/a1";
+
+export type CsvDelimiter = "," | ";" | "\t";
+
+export type CsvParseOptions = {
+  /** Padrão: "auto" (detecta entre `,` `;` `\t`) */
+  delimiter?: CsvDelimiter | "auto";
+  /** Remove espaços nas bordas de campos sem aspas (padrão: true) */
+  trim?: boolean;
+  /** Ignora linhas em branco (padrão: true) */
+  skipEmptyLines?: boolean;
+};
+
+export type CsvStringifyOptions = {
+  /** Padrão: "," */
+  delimiter?: CsvDelimiter;
+  /** Padrão: "\r\n", como na RFC 4180 */
+  lineEnding?: "\r\n" | "\n";
+  /** Coloca todos os campos entre aspas (padrão: só quando necessário) */
+  quoteAll?: boolean;
+};
+
+/**
+ * Tipo esperado de uma coluna ao gravar no Sheets:
+ * - `string`: mantém o texto (ex.: CEP "01310-100", código "00123")
+ * - `number`: aceita "1.234,56" e "1,234.56"
+ * - `boolean`: aceita true/false, sim/não, 1/0
+ * - `date`: aceita dd/mm/aaaa [hh:mm[:ss]] e ISO
+ * - `auto`: deixa o Sheets interpretar (USER_ENTERED)
+ */
+export type CsvTypeHint = "string" | "number" | "boolean" | "date" | "auto";
+
+const DELIMITERS: CsvDelimiter[] = [",", ";", "\t"];
+
+/**
+ * Detecta o delimitador pelas primeiras linhas: escolhe o que aparece (fora
+ * de aspas) o mesmo número de vezes em todas elas, preferindo o mais frequente.
+ * Sem evidência, usa ",".
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const sample = stripBom(text).slice(0, 64 * 1024);
+
+  // conta delimitadores por linha, ignorando trechos entre aspas
+  const counts: Record<CsvDelimiter, number[]> = { ",": [], ";": [], "\t": [] };
+  let current: Record<CsvDelimiter, number> = { ",": 0, ";": 0, "\t": 0 };
+  let inQuotes = false;
+  let lines = 0;
+
+  for (let i = 0; i < sample.length && lines < 10; i++) {
+    const ch = sample[i];
+    if (ch === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (ch === "\n" || ch === "\r")) {
+      if (ch === "\r" && sample[i + 1] === "\n") i++;
+      for (const d of DELIMITERS) counts[d].push(current[d]);
+      current = { ",": 0, ";": 0, "\t": 0 };
+      lines++;
+    } else if (!inQuotes && (ch === "," || ch === ";" || ch === "\t")) {
+      current[ch]++;
+    }
+  }
+  if (lines < 10 && Object.values(current).some((n) => n > 0)) {
+    for (const d of DELIMITERS) counts[d].push(current[d]);
+  }
+
+  let best: CsvDelimiter = ",";
+  let bestScore = 0;
+  for (const d of DELIMITERS) {
+    const perLine = counts[d];
+    if (perLine.length === 0 || perLine[0] === 0) continue;
+
+    const consistent = perLine.every((n) => n === perLine[0]);
+    const score = (consistent ? 1000 : 0) + perLine[0];
+    if (score > bestScore) {
+      best = d;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Converte o CSV em linhas x colunas de texto.
+ *
+ * @example
+ * parseCsv('nome;obs\r\n"Silva, J.";"disse ""oi"""') // [["nome","obs"],["Silva, J.",'disse "oi"']]
+ */
+export function parseCsv(text: string, opts: CsvParseOptions = {}): string[][] {
+  const input = stripBom(text ?? "");
+  const delimiter =
+    !opts.delimiter || opts.delimiter === "auto"
+      ? detectDelimiter(input)
+      : opts.delimiter;
+  const trim = opts.trim ?? true;
+  const skipEmptyLines = opts.skipEmptyLines ?? true;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false; // o campo atual começou com aspas
+  let inQuotes = false;
+
+  const endField = () => {
+    row.push(quoted || !trim ? field : field.trim());
+    field = "";
+    quoted = false;
+  };
+
+  const endRow = () => {
+    endField();
+    const empty = row.length === 1 && row[0] === "";
+    if (!(skipEmptyLines && empty)) rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field.trim() === "" && !quoted) {
+      // aspas de abertura (espaços antes delas são descartados)
+      field = "";
+      quoted = true;
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      endField();
+    } else if (ch === "\r" || ch === "\n") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else if (quoted) {
+      // texto após a aspa de fechamento: tolera espaços, preserva o resto
+      if (ch.trim() !== "") field += ch;
+    } else {
+      field += ch;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("CSV inválido: campo entre aspas não foi fechado");
+  }
+
+  if (field !== "" || quoted || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Gera CSV a partir de linhas x colunas. Campos com delimitador, aspas,
+ * quebras de linha ou espaços nas bordas são colocados entre aspas.
+ */
+export function stringifyCsv(
+  values: unknown[][],
+  opts: CsvStringifyOptions = {}
+): string {
+  const delimiter = opts.delimiter ?? ",";
+  const lineEnding = opts.lineEnding ?? "\r\n";
+
+  const escape = (value: unknown): string => {
+    const text =
+      value === null || value === undefined
+        ? ""
+        : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+
+    const needsQuotes =
+      opts.quoteAll ||
+      text.includes(delimiter) ||
+      /["\r\n]/.test(text) ||
+      text !== text.trim();
+
+    return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return values.map((row) => row.map(escape).join(delimiter)).join(lineEnding);
+}
+
+/**
+ * Converte o CSV (cabeçalho na primeira linha) em objetos `{ coluna: valor }`.
+ * Campos ausentes no fim da linha viram "".
+ */
+export function csvToObjects(
+  text: string,
+  opts: CsvParseOptions = {}
+): { headers: string[]; records: Record<string, string>[] } {
+  const [headers = [], ...body] = parseCsv(text, opts);
+  const records = body.map((row) => {
+    const record: Record<string, string> = {};
+    headers.forEach((h, i) => (record[h] = row[i] ?? ""));
+    return record;
+  });
+  return { headers, records };
+}
+
+/**
+ * Aplica dicas de tipo às colunas antes de gravar no Sheets (USER_ENTERED).
+ *
+ * As colunas são identificadas pelo nome do cabeçalho (primeira linha) ou
+ * pela letra (A, B, ...). Valores que não puderem ser convertidos são
+ * mantidos como texto.
+ *
+ * @param hasHeader A primeira linha é cabeçalho e não é convertida (padrão: true).
+ */
+export function applyTypeHints(
+  rows: string[][],
+  types: Record<string, CsvTypeHint>,
+  hasHeader = true
+): (string | number | boolean)[][] {
+  const header = hasHeader ? rows[0] ?? [] : [];
+  const width = Math.max(0, ...rows.map((r) => r.length));
+
+  const hints: CsvTypeHint[] = Array.from({ length: width }, (_, i) => {
+    const name = header[i];
+    return (
+      (name !== undefined ? types[name] : undefined) ??
+      types[columnIndexToLetters(i)] ??
+      "auto"
+    );
+  });
+
+  return rows.map((row, r) =>
+    hasHeader && r === 0
+      ? row
+      : row.map((value, i) => convertValue(value, hints[i] ?? "auto"))
+  );
+}
+
+/**
+ * Converte um valor de texto conforme a dica de tipo (ver `CsvTypeHint`).
+ */
+export function convertValue(
+  value: string,
+  hint: CsvTypeHint
+): string | number | boolean {
+  if (value === "" || hint === "auto") return value;
+
+  switch (hint) {
+    case "string":
+      // apóstrofo: o Sheets grava como texto, sem interpretar números/datas
+      return /^[=+\-@']/.test(value) || looksTyped(value) ? `'${value}` : value;
+    case "number": {
+      const n = parseLocaleNumber(value);
+      return n === null ? value : n;
+    }
+    case "boolean": {
+      const v = value.trim().toLowerCase();
+      if (["true", "verdadeiro", "sim", "s", "1", "yes"].includes(v)) {
+        return true;
+      }
+      if (["false", "falso", "não", "nao", "n", "0", "no"].includes(v)) {
+        return false;
+      }
+      return value;
+    }
+    case "date":
+      return parseLocaleDate(value) ?? value;
+    default:
+      return value;
+  }
+}
+
+/** Textos que o Sheets converteria (números, datas, booleanos, percentuais). */
+function looksTyped(value: string): boolean {
+  return (
+    parseLocaleNumber(value) !== null ||
+    parseLocaleDate(value) !== null ||
+    /^(true|false|verdadeiro|falso)$/i.test(value.trim()) ||
+    /^\s*-?[\d.,]+\s*%\s*$/.test(value)
+  );
+}
+
+/**
+ * Converte números em pt-BR ("1.234,56", "-10,5", "R$ 1.000,00") ou en-US
+ * ("1,234.56"). O separador decimal é o último entre "," e ".", com duas
+ * exceções para um único separador:
+ *
+ * - vírgula sozinha é sempre decimal, como em pt-BR ("12,345" -> 12.345)
+ * - ponto sozinho seguido de exatamente 3 dígitos é milhar ("1.234" -> 1234),
+ *   exceto com parte inteira 0 ("0.500" -> 0.5)
+ *
+ * Um mesmo separador repetido é sempre milhar ("1.234.567", "1,234,567").
+ */
+export function parseLocaleNumber(value: string): number | null {
+  let text = value
+    .trim()
+    .replace(/^R\$\s*/i, "")
+    .replace(/\s/g, "");
+  if (!/^[-+]?[\d.,]+$/.test(text) || !/\d/.test(text)) return null;
+
+  const lastComma = text.lastIndexOf(",");
+  const lastDot = text.lastIndexOf(".");
+  let decimalSep = lastComma > lastDot ? "," : ".";
+  let thousandSep = decimalSep === "," ? "." : ",";
+
+  // um só tipo de separador, repetido: é milhar ("1.234.567")
+  const repeated = text.split(decimalSep).length > 2;
+  if (repeated && !text.includes(thousandSep)) {
+    [decimalSep, thousandSep] = [thousandSep, decimalSep];
+  }
+
+  const single =
+    !text.includes(thousandSep) && text.split(decimalSep).length === 2;
+  if (single && /^[-+]?(?!0+\.)\d{1,3}\.\d{3}$/.test(text)) {
+    // "1.234": milhar ("0.500" e "1,234" são decimais)
+    text = text.replace(".", "");
+  } else {
+    if (text.split(decimalSep).length > 2) return null;
+    // grupos de milhar precisam ter 3 dígitos ("1.23,4" é inválido)
+    const [intPart] = text.split(decimalSep);
+    const groups = intPart.replace(/^[-+]/, "").split(thousandSep);
+    if (groups.length > 1 && groups.slice(1).some((g) => g.length !== 3)) {
+      return null;
+    }
+    text = text.split(thousandSep).join("").replace(decimalSep, ".");
+  }
+
+  const n = Number(text);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Converte "dd/mm/aaaa [hh:mm[:ss]]" (ou ISO "aaaa-mm-dd") em ISO 8601,
+ * formato que o Sheets reconhece como data em qualquer localidade.
+ */
+export function parseLocaleDate(value: string): string | null {
+  const text = value.trim();
+
+  const iso =
+    /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/.exec(text);
+  const br =
+    /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/.exec(
+      text
+    );
+
+  let y: number, m: number, d: number;
+  let time: string[] = [];
+  if (iso) {
+    [y, m, d] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+    time = iso.slice(4);
+  } else if (br) {
+    [d, m, y] = [Number(br[1]), Number(br[2]), Number(br[3])];
+    time = br.slice(4);
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (
+    date.getUTCFullYear() !== y ||
+    date.getUTCMonth() !== m - 1 ||
+    date.getUTCDate() !== d
+  ) {
+    return null;
+  }
+
+  const pad = (n: number | string) => String(n).padStart(2, "0");
+  const day = `${y}-${pad(m)}-${pad(d)}`;
+  if (!time[0]) return day;
+
+  const [hh, mm, ss = "00"] = time;
+  if (Number(hh) > 23 || Number(mm) > 59 || Number(ss) > 59) return null;
+  return `${day} ${pad(hh)}:${mm}:${pad(ss)}`;
+}
+
+function stripBom(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
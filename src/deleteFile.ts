@@ -0,0 +1,69 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import { FOLDER_MIME_TYPE, GoogleDriveApi } from "./google/drive";
+
+interface ExcluirArquivoParams {
+  fileId: string;
+
+  // precisa ser true: a exclusão é permanente (não passa pela lixeira)
+  confirm: boolean;
+}
+
+async function excluirArquivo(params: ExcluirArquivoParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.fileId) {
+      console.log(docgo.result(false, null, "fileId é obrigatório"));
+      return;
+    }
+
+    // aceita apenas true (ou "true", vindo de formulários)
+    if (params.confirm !== true && String(params.confirm) !== "true") {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          "a exclusão é permanente. Informe confirm = true para confirmar ou use lixeira"
+        )
+      );
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const drive = new GoogleDriveApi(google);
+
+    const file = await drive.getById(params.fileId, "id,name,mimeType");
+    await drive.deleteById(params.fileId);
+
+    console.log(
+      docgo.result(true, {
+        id: file.id,
+        name: file.name,
+        mimeType: file.mimeType,
+        // pastas são excluídas com todo o conteúdo
+        isFolder: file.mimeType === FOLDER_MIME_TYPE,
+        deleted: true,
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default excluirArquivo;
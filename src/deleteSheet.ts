@@ -0,0 +1,96 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import { GoogleSheetsApi } from "./google/sheets";
+
+interface ExcluirAbaParams {
+  sheetId: string;
+  sheetName: string;
+
+  // precisa ser true: a aba e seus dados são apagados
+  confirm: boolean;
+}
+
+async function excluirAba(params: ExcluirAbaParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.sheetId) {
+      console.log(docgo.result(false, null, "sheetId é obrigatório"));
+      return;
+    }
+
+    if (!params.sheetName) {
+      console.log(docgo.result(false, null, "sheetName é obrigatório"));
+      return;
+    }
+
+    // aceita apenas true (ou "true", vindo de formulários)
+    if (params.confirm !== true && String(params.confirm) !== "true") {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          "a aba e seus dados serão apagados. Informe confirm = true para confirmar ou use ocultarAba"
+        )
+      );
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const sheets = new GoogleSheetsApi(google);
+
+    const existing = await sheets.getSheets(params.sheetId);
+    const sheet = existing.find((s) => s.title === params.sheetName);
+    if (!sheet) {
+      console.log(
+        docgo.result(
+          false,
+          { sheets: existing.map((s) => s.title) },
+          `aba "${params.sheetName}" não encontrada`
+        )
+      );
+      return;
+    }
+
+    if (existing.length === 1) {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          "não é possível excluir a única aba da planilha"
+        )
+      );
+      return;
+    }
+
+    await sheets.deleteSheet(params.sheetId, sheet.sheetId);
+
+    console.log(
+      docgo.result(true, {
+        spreadsheetId: params.sheetId,
+        sheetId: sheet.sheetId,
+        title: sheet.title,
+        deleted: true,
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default excluirAba;
@@ -0,0 +1,192 @@
+import docgo from "docgo-sdk";
+
+import {
+  describeError,
+  extractPlainText,
+  getServiceAccountCredentials,
+} from "./utils";
+import { GoogleApi } from "./google/google";
+import { GoogleDocsApi } from "./google/docs";
+import { DriveRevision, GoogleDriveApi } from "./google/drive";
+import { diffLines, unifiedDiff } from "./textDiff";
+
+interface HistoricoDocumentoParams {
+  documentId: string;
+
+  // revisão inicial do diff (sem `from` nem `text`: só lista as revisões)
+  from?: string;
+
+  // revisão final do diff (padrão: a mais recente)
+  to?: string;
+
+  // texto a comparar com a versão atual do documento (ex.: versão assinada)
+  text?: string;
+
+  // linhas de contexto no diff unificado (padrão: 3)
+  context?: number;
+}
+
+/** Revisão resumida: autor e data. */
+function summarize(revision: DriveRevision) {
+  return {
+    id: revision.id,
+    modifiedTime: revision.modifiedTime,
+    author: revision.lastModifyingUser?.displayName ?? null,
+    authorEmail: revision.lastModifyingUser?.emailAddress ?? null,
+    keepForever: revision.keepForever ?? false,
+  };
+}
+
+/** Resumo, linhas alteradas e diff unificado. */
+function diffResult(
+  lines: ReturnType<typeof diffLines>,
+  context: number,
+  fromLabel: string,
+  toLabel: string
+) {
+  const changes = lines.filter((l) => l.type !== "equal");
+  return {
+    identical: changes.length === 0,
+    summary: {
+      added: changes.filter((l) => l.type === "added").length,
+      removed: changes.filter((l) => l.type === "removed").length,
+    },
+    changes,
+    diff: unifiedDiff(lines, { context, fromLabel, toLabel }),
+  };
+}
+
+async function historicoDocumento(
+  params: HistoricoDocumentoParams
+): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.documentId) {
+      console.log(docgo.result(false, null, "documentId é obrigatório"));
+      return;
+    }
+
+    const from = params.from ? String(params.from).trim() : "";
+    const to = params.to ? String(params.to).trim() : "";
+    const hasText = typeof params.text === "string" && params.text !== "";
+
+    if (hasText && (from || to)) {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          "informe text (compara com a versão atual) ou from/to (compara revisões), não ambos"
+        )
+      );
+      return;
+    }
+
+    if (to && !from) {
+      console.log(
+        docgo.result(false, null, "from é obrigatório quando to é informado")
+      );
+      return;
+    }
+
+    const context =
+      params.context === undefined || String(params.context) === ""
+        ? 3
+        : Number(params.context);
+    if (!Number.isInteger(context) || context < 0) {
+      console.log(
+        docgo.result(false, null, "context deve ser um inteiro >= 0")
+      );
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const drive = new GoogleDriveApi(google);
+
+    // texto informado x versão atual (mesma extração do lerDocumento)
+    if (hasText) {
+      const docs = new GoogleDocsApi(google);
+      const current = extractPlainText(await docs.getById(params.documentId));
+      const lines = diffLines(params.text!, current);
+
+      console.log(
+        docgo.result(true, {
+          documentId: params.documentId,
+          from: "text",
+          to: "current",
+          ...diffResult(lines, context, "texto informado", "versão atual"),
+        })
+      );
+      return;
+    }
+
+    const revisions = await drive.listRevisions(params.documentId);
+
+    if (!from) {
+      console.log(
+        docgo.result(true, {
+          documentId: params.documentId,
+          count: revisions.length,
+          revisions: revisions.map(summarize),
+        })
+      );
+      return;
+    }
+
+    const find = (id: string) => revisions.find((r) => r.id === id);
+    const fromRevision = find(from);
+    const toRevision = to ? find(to) : revisions[revisions.length - 1];
+    const missing = [from, to].filter((id) => id && !find(id));
+    if (missing.length > 0 || !fromRevision || !toRevision) {
+      console.log(
+        docgo.result(
+          false,
+          { available: revisions.map((r) => r.id) },
+          `Revisão não encontrada: ${missing.join(", ")}`
+        )
+      );
+      return;
+    }
+
+    // revisões de Google Docs só podem ser baixadas pelos exportLinks
+    const [before, after] = await Promise.all(
+      [fromRevision, toRevision].map(async (r) =>
+        (
+          await drive.exportRevision(params.documentId, r.id, "text/plain")
+        ).data.toString("utf8")
+      )
+    );
+    const lines = diffLines(before, after);
+
+    console.log(
+      docgo.result(true, {
+        documentId: params.documentId,
+        from: summarize(fromRevision),
+        to: summarize(toRevision),
+        ...diffResult(
+          lines,
+          context,
+          `revisão ${fromRevision.id} (${fromRevision.modifiedTime ?? ""})`,
+          `revisão ${toRevision.id} (${toRevision.modifiedTime ?? ""})`
+        ),
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default historicoDocumento;
@@ -0,0 +1,101 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import { GoogleSheetsApi } from "./google/sheets";
+
+interface DuplicarAbaParams {
+  sheetId: string;
+
+  // aba de origem (ex.: o modelo do mês)
+  sheetName: string;
+
+  // nome da cópia (padrão do Sheets: "Cópia de ...")
+  newName?: string;
+
+  // posição da cópia (padrão: logo após a original)
+  index?: number;
+}
+
+async function duplicarAba(params: DuplicarAbaParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.sheetId) {
+      console.log(docgo.result(false, null, "sheetId é obrigatório"));
+      return;
+    }
+
+    if (!params.sheetName) {
+      console.log(docgo.result(false, null, "sheetName é obrigatório"));
+      return;
+    }
+
+    const index =
+      params.index === undefined || String(params.index) === ""
+        ? undefined
+        : Number(params.index);
+    if (index !== undefined && (!Number.isInteger(index) || index < 0)) {
+      console.log(
+        docgo.result(false, null, "index deve ser um inteiro positivo")
+      );
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const sheets = new GoogleSheetsApi(google);
+
+    const existing = await sheets.getSheets(params.sheetId);
+    const source = existing.find((s) => s.title === params.sheetName);
+    if (!source) {
+      console.log(
+        docgo.result(
+          false,
+          { sheets: existing.map((s) => s.title) },
+          `aba "${params.sheetName}" não encontrada`
+        )
+      );
+      return;
+    }
+
+    const newName = params.newName?.trim();
+    if (newName && existing.some((s) => s.title === newName)) {
+      console.log(
+        docgo.result(false, null, `já existe uma aba com o nome "${newName}"`)
+      );
+      return;
+    }
+
+    const sheet = await sheets.duplicateSheet(
+      params.sheetId,
+      source.sheetId,
+      newName,
+      index
+    );
+
+    console.log(
+      docgo.result(true, {
+        spreadsheetId: params.sheetId,
+        source: { sheetId: source.sheetId, title: source.title },
+        sheet,
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default duplicarAba;
@@ -0,0 +1,112 @@
+import docgo from "docgo-sdk";
+import { mkdir, writeFile } from "fs/promises";
+import { dirname } from "path";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import { EXPORT_FORMATS, GoogleDriveApi } from "./google/drive";
+
+interface ExportarArquivoParams {
+  fileId: string;
+
+  // docs: pdf, docx, odt, txt, html | sheets: xlsx, csv, ods, pdf
+  format?: string;
+
+  // se informado, grava o arquivo neste caminho em vez de retornar base64
+  outputPath?: string;
+}
+
+async function exportarArquivo(params: ExportarArquivoParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.fileId) {
+      console.log(docgo.result(false, null, "fileId é obrigatório"));
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const drive = new GoogleDriveApi(google);
+
+    const meta = await drive.getById(params.fileId);
+    if (!meta?.mimeType) {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          "não foi possível identificar o arquivo informado"
+        )
+      );
+      return;
+    }
+
+    const formats = EXPORT_FORMATS[meta.mimeType];
+    if (!formats) {
+      console.log(
+        docgo.result(
+          false,
+          { file: meta },
+          "apenas documentos do Google Docs e planilhas do Google Sheets podem ser exportados"
+        )
+      );
+      return;
+    }
+
+    const format = (params.format ?? "pdf").toLowerCase();
+    const mimeType = formats[format];
+    if (!mimeType) {
+      console.log(
+        docgo.result(
+          false,
+          { file: meta },
+          `format inválido para este arquivo. Use: ${Object.keys(formats).join(
+            ", "
+          )}`
+        )
+      );
+      return;
+    }
+
+    const exported = await drive.export(params.fileId, mimeType);
+    const fileName = `${meta.name ?? params.fileId}.${format}`;
+
+    const result = {
+      file: meta,
+      format,
+      mimeType,
+      fileName,
+      size: exported.data.length,
+    };
+
+    if (params.outputPath) {
+      await mkdir(dirname(params.outputPath), { recursive: true });
+      await writeFile(params.outputPath, exported.data);
+      console.log(docgo.result(true, { ...result, path: params.outputPath }));
+      return;
+    }
+
+    console.log(
+      docgo.result(true, {
+        ...result,
+        base64: exported.data.toString("base64"),
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default exportarArquivo;
@@ -0,0 +1,146 @@
+import docgo from "docgo-sdk";
+
+import {
+  describeError,
+  extractAllText,
+  findPlaceholders,
+  getServiceAccountCredentials,
+} from "./utils";
+import { GoogleApi } from "./google/google";
+import { GoogleDriveApi } from "./google/drive";
+import { GoogleDocsApi } from "./google/docs";
+
+interface PreencherModeloParams {
+  templateId: string;
+  sharedDriveId: string;
+  titulo?: string;
+  // objeto ou string JSON: { "cliente": "ACME", "valor": "1.000,00" }
+  data: Record<string, unknown> | string;
+}
+
+async function preencherModelo(params: PreencherModeloParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.templateId) {
+      console.log(docgo.result(false, null, "templateId é obrigatório"));
+      return;
+    }
+
+    if (!params?.sharedDriveId) {
+      console.log(docgo.result(false, null, "sharedDriveId é obrigatório"));
+      return;
+    }
+
+    let data = params.data ?? {};
+    if (typeof data === "string") {
+      try {
+        data = JSON.parse(data);
+      } catch {
+        console.log(docgo.result(false, null, "data deve ser um JSON válido"));
+        return;
+      }
+    }
+
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+      console.log(
+        docgo.result(false, null, "data deve ser um objeto chave -> valor")
+      );
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const drive = new GoogleDriveApi(google);
+    const docs = new GoogleDocsApi(google);
+
+    const template = await drive.getById(params.templateId);
+    if (template?.mimeType !== "application/vnd.google-apps.document") {
+      console.log(
+        docgo.result(
+          false,
+          { file: template },
+          "o modelo informado não é um documento do Google Docs"
+        )
+      );
+      return;
+    }
+
+    const created = await drive.copy(params.templateId, {
+      name: params.titulo || template.name,
+      parents: [params.sharedDriveId],
+    });
+
+    const documentId = created?.id;
+    if (!documentId) {
+      console.log(
+        docgo.result(false, null, "não foi possível copiar o modelo")
+      );
+      return;
+    }
+
+    // placeholders presentes na cópia (body, cabeçalhos, rodapés e notas de
+    // rodapé), com as variações de espaço usadas
+    const doc = await docs.getById(documentId);
+    const found = findPlaceholders(extractAllText(doc));
+
+    // cada chave gera `{{chave}}` + as variações encontradas (ex.: "{{ chave }}")
+    const replacements: Record<string, string> = {};
+    const keyByText: Record<string, string> = {};
+    for (const [key, value] of Object.entries(data)) {
+      const variants = new Set([`{{${key}}}`, ...(found.get(key) ?? [])]);
+      for (const text of variants) {
+        replacements[text] = value == null ? "" : String(value);
+        keyByText[text] = key;
+      }
+    }
+
+    const updates = await docs.replaceAllText(documentId, replacements);
+
+    const occurrences: Record<string, number> = {};
+    Object.keys(replacements).forEach((text, i) => {
+      const key = keyByText[text];
+      const changed =
+        updates?.replies?.[i]?.replaceAllText?.occurrencesChanged ?? 0;
+      occurrences[key] = (occurrences[key] ?? 0) + changed;
+    });
+
+    const replaced = Object.entries(occurrences)
+      .filter(([, count]) => count > 0)
+      .map(([key, count]) => ({ key, occurrences: count }));
+
+    console.log(
+      docgo.result(true, {
+        id: documentId,
+        title: created.name,
+        file: created,
+        placeholders: {
+          found: Array.from(
+            new Set([...found.keys(), ...replaced.map((r) => r.key)])
+          ),
+          replaced,
+          // presentes no documento, mas sem valor em `data`
+          unresolved: Array.from(found.keys()).filter((k) => !(k in data)),
+          // informados em `data`, mas sem ocorrência no documento
+          unused: Object.keys(occurrences).filter((k) => !occurrences[k]),
+        },
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default preencherModelo;
@@ -0,0 +1,137 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import { GoogleSheetsApi } from "./google/sheets";
+import {
+  ConditionalFormat,
+  FormatSpec,
+  RangeFormat,
+} from "./google/sheetFormat";
+
+interface FormatarPlanilhaParams {
+  sheetId: string;
+
+  // aba dos ranges sem aba explícita (padrão: a primeira)
+  sheetName?: string;
+
+  // [{ "range": "1:1", "bold": true, "background": "#1F4E78" }] (array ou JSON)
+  ranges?: RangeFormat[] | string;
+
+  // [{ "range": "C2:C", "type": "NUMBER_LESS", "values": [0], "fontColor": "#C00000" }]
+  conditionalFormats?: ConditionalFormat[] | string;
+
+  freezeRows?: number;
+  freezeColumns?: number;
+
+  // true (todas as colunas) ou ["A:D"]
+  autoResize?: boolean | string[] | string;
+
+  // { "A": 200, "B:D": 90 } (objeto ou JSON)
+  columnWidths?: Record<string, number> | string;
+}
+
+/** Aceita o valor já estruturado ou como string JSON (formulários). */
+function parseJsonParam<T>(value: T | string | undefined, name: string): T {
+  if (typeof value !== "string") return value as T;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`${name} deve ser um JSON válido`);
+  }
+}
+
+function optionalCount(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) {
+    throw new Error(`${name} deve ser um inteiro positivo`);
+  }
+  return n;
+}
+
+async function formatarPlanilha(params: FormatarPlanilhaParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.sheetId) {
+      console.log(docgo.result(false, null, "sheetId é obrigatório"));
+      return;
+    }
+
+    let spec: FormatSpec;
+    try {
+      const autoResize =
+        params.autoResize === "true" || params.autoResize === "false"
+          ? params.autoResize === "true"
+          : parseJsonParam<boolean | string[]>(params.autoResize, "autoResize");
+
+      spec = {
+        sheetName: params.sheetName || undefined,
+        ranges: parseJsonParam(params.ranges, "ranges"),
+        conditionalFormats: parseJsonParam(
+          params.conditionalFormats,
+          "conditionalFormats"
+        ),
+        freezeRows: optionalCount(params.freezeRows, "freezeRows"),
+        freezeColumns: optionalCount(params.freezeColumns, "freezeColumns"),
+        autoResize,
+        columnWidths: parseJsonParam(params.columnWidths, "columnWidths"),
+      };
+    } catch (err: any) {
+      console.log(docgo.result(false, null, err.message));
+      return;
+    }
+
+    if (spec.ranges !== undefined && !Array.isArray(spec.ranges)) {
+      console.log(
+        docgo.result(false, null, "ranges deve ser uma lista de formatações")
+      );
+      return;
+    }
+
+    if (
+      spec.conditionalFormats !== undefined &&
+      !Array.isArray(spec.conditionalFormats)
+    ) {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          "conditionalFormats deve ser uma lista de regras"
+        )
+      );
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const sheets = new GoogleSheetsApi(google);
+
+    const result = await sheets.format(params.sheetId, spec);
+
+    console.log(
+      docgo.result(true, {
+        spreadsheetId: params.sheetId,
+        requests: result.requests,
+        replies: result.response?.replies ?? [],
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default formatarPlanilha;
@@ -0,0 +1,369 @@
+/**
+ * Notação A1 / R1C1 do Google Sheets.
+ *
+ * Converte referências como `A1`, `A1:D10`, `A:A`, `2:2`, `A2:C` (aberto),
+ * `'O''Brien'!B2`, `R1C1:R10C4` e intervalos nomeados em `GridRange`
+ * (índices base-0, fim exclusivo) e de volta para A1.
+ *
+ * @see https://developers.google.com/sheets/api/guides/concepts#cell
+ */
+
+/**
+ * Intervalo no formato usado pelo `spreadsheets.batchUpdate`.
+ * Limites ausentes significam "sem limite" (linha/coluna inteira).
+ */
+export type GridRange = {
+  sheetId: number;
+  startRowIndex?: number;
+  endRowIndex?: number;
+  startColumnIndex?: number;
+  endColumnIndex?: number;
+};
+
+/** Referência interpretada, ainda sem `sheetId` (a aba é só o título). */
+export type A1Range = Omit<GridRange, "sheetId"> & {
+  sheetName: string | null;
+};
+
+export type RangeNotation = "A1" | "R1C1" | "auto";
+
+/** Uma ponta do intervalo: coluna e/ou linha (base-0). */
+type Endpoint = { column?: number; row?: number };
+
+/**
+ * Converte letras de coluna (A, B, Z, AA, AB...) para índice base-0.
+ *
+ * Exemplos:
+ * - A  -> 0
+ * - B  -> 1
+ * - Z  -> 25
+ * - AA -> 26
+ * - AB -> 27
+ *
+ * @param letters Letras da coluna em maiúsculo (A-Z).
+ * @returns Índice base-0 da coluna.
+ */
+export function columnLettersToIndex(letters: string): number {
+  let n = 0;
+  for (let i = 0; i < letters.length; i++) {
+    const code = letters.charCodeAt(i);
+    if (code < 65 || code > 90) {
+      throw new Error(`Coluna inválida: "${letters}"`);
+    }
+    n = n * 26 + (code - 64);
+  }
+  return n - 1;
+}
+
+/**
+ * Converte índice de coluna base-0 em letras (0 -> A, 25 -> Z, 26 -> AA).
+ */
+export function columnIndexToLetters(index: number): string {
+  let n = index + 1;
+  let letters = "";
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    letters = String.fromCharCode(65 + rem) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters;
+}
+
+/** Nome de aba para uso em A1, entre aspas simples (aspas internas duplicadas). */
+export function quoteSheetName(title: string): string {
+  return `'${title.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Separa o nome da aba da referência: `'O''Brien'!A1` -> ["O'Brien", "A1"],
+ * `Vendas!A:A` -> ["Vendas", "A:A"], `A1` -> [null, "A1"].
+ *
+ * Um nome entre aspas sem `!` (ex.: `'Minha Aba'`) retorna a referência vazia.
+ */
+export function splitSheetName(input: string): [string | null, string] {
+  const text = input.trim();
+
+  if (text.startsWith("'")) {
+    let name = "";
+    let i = 1;
+    for (; i < text.length; i++) {
+      if (text[i] === "'") {
+        if (text[i + 1] === "'") {
+          name += "'";
+          i++;
+          continue;
+        }
+        break;
+      }
+      name += text[i];
+    }
+
+    if (i >= text.length) {
+      throw new Error(`Nome de aba sem aspas de fechamento: "${input}"`);
+    }
+
+    const rest = text.slice(i + 1);
+    if (rest === "") return [name, ""];
+    if (!rest.startsWith("!")) {
+      throw new Error(`Range inválido: "${input}"`);
+    }
+    return [name, rest.slice(1).trim()];
+  }
+
+  const bang = text.lastIndexOf("!");
+  if (bang === -1) return [null, text];
+  return [text.slice(0, bang).trim(), text.slice(bang + 1).trim()];
+}
+
+function parseA1Endpoint(ref: string): Endpoint | null {
+  const m = /^\$?([A-Za-z]*)\$?(\d*)$/.exec(ref);
+  if (!m || (!m[1] && !m[2])) return null;
+
+  const endpoint: Endpoint = {};
+  if (m[1]) endpoint.column = columnLettersToIndex(m[1].toUpperCase());
+  if (m[2]) {
+    const row = parseInt(m[2], 10);
+    if (row <= 0) return null;
+    endpoint.row = row - 1;
+  }
+  return endpoint;
+}
+
+function parseR1C1Endpoint(ref: string): Endpoint | null {
+  if (/\[/.test(ref)) {
+    throw new Error(
+      `Referências R1C1 relativas (ex.: R[1]C[1]) não são suportadas: "${ref}"`
+    );
+  }
+
+  const m = /^(?:R(\d+))?(?:C(\d+))?$/i.exec(ref);
+  if (!m || (!m[1] && !m[2])) return null;
+
+  const endpoint: Endpoint = {};
+  if (m[1]) endpoint.row = parseInt(m[1], 10) - 1;
+  if (m[2]) endpoint.column = parseInt(m[2], 10) - 1;
+  if ((endpoint.row ?? 0) < 0 || (endpoint.column ?? 0) < 0) return null;
+  return endpoint;
+}
+
+/**
+ * Interpreta a parte da referência (sem a aba).
+ *
+ * Formas aceitas (A1): `B2`, `A1:D10`, `A:C`, `2:5`, `A2:C` (linhas até o fim),
+ * `A:C10`; com `$` opcional. Em R1C1: `R2C3`, `R1C1:R10C4`, `R2:R5`, `C1:C3`.
+ *
+ * @returns `null` quando não é uma referência válida (pode ser um intervalo
+ *   nomeado ou o nome de uma aba).
+ */
+function parseReference(
+  ref: string,
+  notation: RangeNotation
+): Omit<A1Range, "sheetName"> | null {
+  const useR1C1 =
+    notation === "R1C1" ||
+    (notation === "auto" && /^R\d+C\d+(:R\d+C\d+)?$/i.test(ref));
+  const parseEndpoint = useR1C1 ? parseR1C1Endpoint : parseA1Endpoint;
+
+  const parts = ref.split(":");
+  if (parts.length > 2) return null;
+
+  const start = parseEndpoint(parts[0].trim());
+  if (!start) return null;
+
+  // ponta única: só célula (em A1, "A" sozinho ou "2" sozinho não são ranges)
+  if (parts.length === 1) {
+    if (start.row === undefined || start.column === undefined) {
+      return useR1C1 && notation === "R1C1" ? toIndexes(start, start) : null;
+    }
+    return toIndexes(start, start);
+  }
+
+  const end = parseEndpoint(parts[1].trim());
+  if (!end) return null;
+
+  // "A:2" (coluna com linha) não tem significado
+  const startKind = kind(start);
+  const endKind = kind(end);
+  if (
+    (startKind === "column" && endKind === "row") ||
+    (startKind === "row" && endKind === "column")
+  ) {
+    return null;
+  }
+
+  return toIndexes(start, end);
+}
+
+function kind(e: Endpoint): "cell" | "column" | "row" {
+  if (e.column !== undefined && e.row !== undefined) return "cell";
+  return e.column !== undefined ? "column" : "row";
+}
+
+function toIndexes(start: Endpoint, end: Endpoint): Omit<A1Range, "sheetName"> {
+  const out: Omit<A1Range, "sheetName"> = {};
+
+  const rows = [start.row, end.row].filter((r): r is number => r !== undefined);
+  const cols = [start.column, end.column].filter(
+    (c): c is number => c !== undefined
+  );
+
+  // "A2:C": começa na linha 2 e vai até o fim; "A:C10": do início até a linha 10
+  if (rows.length === 2) {
+    out.startRowIndex = Math.min(...rows);
+    out.endRowIndex = Math.max(...rows) + 1;
+  } else if (rows.length === 1) {
+    if (start.row !== undefined) out.startRowIndex = start.row;
+    else out.endRowIndex = end.row! + 1;
+  }
+
+  if (cols.length === 2) {
+    out.startColumnIndex = Math.min(...cols);
+    out.endColumnIndex = Math.max(...cols) + 1;
+  } else if (cols.length === 1) {
+    if (start.column !== undefined) out.startColumnIndex = start.column;
+    else out.endColumnIndex = end.column! + 1;
+  }
+
+  return out;
+}
+
+/**
+ * Interpreta uma referência A1/R1C1 com aba opcional.
+ *
+ * @example
+ * parseA1("'O''Brien'!A2:C") // { sheetName: "O'Brien", startRowIndex: 1, startColumnIndex: 0, endColumnIndex: 3 }
+ *
+ * @returns `null` se a referência (sem aba) não for A1/R1C1 — pode ser um
+ *   intervalo nomeado ou só o nome de uma aba (ver `resolveGridRange`).
+ * @throws Se houver aba (`Aba!...`) e a referência for inválida.
+ */
+export function parseA1(
+  input: string,
+  notation: RangeNotation = "auto"
+): A1Range | null {
+  const [sheetName, ref] = splitSheetName(input);
+
+  // só a aba: a aba inteira
+  if (sheetName !== null && ref === "") return { sheetName };
+
+  const parsed = parseReference(ref, notation);
+  if (!parsed) {
+    if (sheetName !== null) {
+      throw new Error(
+        `Range inválido: "${input}". Use por exemplo "A1", "A1:D10", "A:A", "2:2", "A2:C" ou "Aba!B2".`
+      );
+    }
+    return null;
+  }
+
+  return { sheetName, ...parsed };
+}
+
+/**
+ * Resolve uma referência contra a planilha (payload de `spreadsheets.get`,
+ * com `sheets.properties` e `namedRanges`):
+ *
+ * - referência sem aba -> `options.sheetName` ou a primeira aba
+ * - nome exato de uma aba -> a aba inteira
+ * - intervalo nomeado -> o `GridRange` do nome
+ *
+ * @throws Se a aba, o nome ou a referência não existirem.
+ */
+export function resolveGridRange(
+  spreadsheet: any,
+  input: string,
+  options: { notation?: RangeNotation; sheetName?: string } = {}
+): GridRange {
+  const sheets: any[] = spreadsheet?.sheets ?? [];
+  if (sheets.length === 0) {
+    throw new Error("Planilha não possui abas (sheets).");
+  }
+
+  const text = String(input ?? "").trim();
+  const findSheet = (title: string) =>
+    sheets.find((s) => s?.properties?.title === title);
+
+  if (!text.includes("!") && !text.startsWith("'")) {
+    // nome de aba ou intervalo nomeado têm precedência sobre "Vendas1" como célula
+    const sheet = findSheet(text);
+    if (sheet) return { sheetId: sheet.properties.sheetId ?? 0 };
+
+    const named = (spreadsheet?.namedRanges ?? []).find(
+      (n: any) => n?.name === text
+    );
+    if (named) return { sheetId: 0, ...named.range };
+  }
+
+  const parsed = parseA1(text, options.notation ?? "auto");
+  if (!parsed) {
+    throw new Error(
+      `Range inválido: "${input}". Use notação A1 ("A1:D10", "Aba!A:A"), o nome de uma aba ou um intervalo nomeado.`
+    );
+  }
+
+  const sheetName = parsed.sheetName ?? options.sheetName ?? null;
+  const sheet = sheetName !== null ? findSheet(sheetName) : sheets[0];
+  if (!sheet) {
+    throw new Error(
+      `Aba "${sheetName}" não encontrada. Abas disponíveis: ${sheets
+        .map((s) => s?.properties?.title)
+        .join(", ")}`
+    );
+  }
+
+  const { sheetName: _, ...indexes } = parsed;
+  return { sheetId: sheet.properties.sheetId ?? 0, ...indexes };
+}
+
+/**
+ * Converte um `GridRange` de volta para A1 (ex.: "'Vendas'!A2:C", "B2").
+ *
+ * @param sheetTitle Título da aba; sem ele, a referência sai sem aba.
+ */
+export function gridRangeToA1(
+  range: Omit<GridRange, "sheetId"> & { sheetId?: number },
+  sheetTitle?: string
+): string {
+  const prefix = sheetTitle !== undefined ? quoteSheetName(sheetTitle) : "";
+
+  const hasRows =
+    range.startRowIndex !== undefined || range.endRowIndex !== undefined;
+  const hasCols =
+    range.startColumnIndex !== undefined || range.endColumnIndex !== undefined;
+
+  if (!hasRows && !hasCols) return prefix;
+
+  const col = (i: number | undefined) =>
+    i === undefined ? "" : columnIndexToLetters(i);
+  const row = (i: number | undefined) => (i === undefined ? "" : String(i + 1));
+
+  let ref: string;
+  if (!hasRows) {
+    // colunas inteiras
+    ref = `${col(range.startColumnIndex ?? 0)}:${col(
+      (range.endColumnIndex ?? range.startColumnIndex! + 1) - 1
+    )}`;
+  } else if (!hasCols) {
+    // linhas inteiras
+    ref = `${row(range.startRowIndex ?? 0)}:${row(
+      (range.endRowIndex ?? range.startRowIndex! + 1) - 1
+    )}`;
+  } else {
+    const startCol = range.startColumnIndex ?? 0;
+    const startRow = range.startRowIndex ?? 0;
+    const endCol =
+      range.endColumnIndex !== undefined ? range.endColumnIndex - 1 : undefined;
+    const endRow =
+      range.endRowIndex !== undefined ? range.endRowIndex - 1 : undefined;
+
+    const start = `${col(startCol)}${row(startRow)}`;
+    if (endCol === startCol && endRow === startRow) {
+      ref = start;
+    } else {
+      // A1 não expressa colunas abertas com linha inicial: limita à coluna inicial
+      ref = `${start}:${col(endCol ?? startCol)}${row(endRow)}`;
+    }
+  }
+
+  return prefix ? `${prefix}!${ref}` : ref;
+}
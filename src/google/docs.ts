@@ -1,4 +1,77 @@
 import { GoogleApi } from "./google";
+import { markdownToDocsRequests } from "../markdown";
+import { DocsDocument, DocsStructuralElement, DocumentFormat } from "../types";
+
+/**
+ * Texto do body concatenado + mapa de volta para os índices do documento.
+ *
+ * Os índices da Docs API não são contínuos em relação ao texto (tabelas,
+ * linhas e células ocupam posições estruturais), então cada trecho de texto
+ * guarda seu offset no texto concatenado e seu `startIndex` no documento.
+ */
+type TextIndex = {
+  text: string;
+  runs: { offset: number; startIndex: number; length: number }[];
+  paragraphs: { offset: number; startIndex: number; endIndex: number }[];
+};
+
+function buildTextIndex(doc: DocsDocument): TextIndex {
+  const index: TextIndex = { text: "", runs: [], paragraphs: [] };
+
+  const walk = (content: DocsStructuralElement[]) => {
+    for (const block of content) {
+      if (block.paragraph) {
+        index.paragraphs.push({
+          offset: index.text.length,
+          startIndex: block.startIndex ?? 0,
+          endIndex: block.endIndex ?? 0,
+        });
+        for (const el of block.paragraph.elements ?? []) {
+          const content = el.textRun?.content;
+          if (typeof content !== "string" || el.startIndex === undefined) {
+            continue;
+          }
+          index.runs.push({
+            offset: index.text.length,
+            startIndex: el.startIndex,
+            length: content.length,
+          });
+          index.text += content;
+        }
+      } else if (block.table) {
+        for (const row of block.table.tableRows ?? []) {
+          for (const cell of row.tableCells ?? []) walk(cell.content ?? []);
+        }
+      }
+    }
+  };
+
+  walk(doc?.body?.content ?? []);
+
+  return index;
+}
+
+/**
+ * Converte um offset do texto concatenado em índice do documento.
+ * `isEnd` trata o offset como limite exclusivo (fim de um intervalo).
+ */
+function toDocIndex(index: TextIndex, offset: number, isEnd = false): number {
+  const target = isEnd ? offset - 1 : offset;
+  const run = index.runs.find(
+    (r) => target >= r.offset && target < r.offset + r.length
+  );
+  if (!run) {
+    throw new Error(`Posição ${offset} fora do texto do documento.`);
+  }
+  return run.startIndex + (target - run.offset) + (isEnd ? 1 : 0);
+}
+
+/** `endIndex` do último elemento do body (o "fim" do documento). */
+function bodyEndIndex(doc: DocsDocument): number {
+  const content = doc?.body?.content ?? [];
+  const last = content[content.length - 1];
+  return typeof last?.endIndex === "number" ? last.endIndex : 1;
+}
 
 /**
  * Cliente especializado para operações no Google Docs.
@@ -63,22 +136,26 @@ export class GoogleDocsApi {
    * - Remove o conteúdo do body e insere `data`.
    * - Preserva estrutura externa fora do body (ex.: properties do doc),
    *   mas não é um "reset total" de headers/footers/tabelas especiais (se existirem).
+   * - Com `format: "markdown"`, o texto é convertido em parágrafos formatados
+   *   (títulos, ênfases, listas, links) via `markdownToDocsRequests`.
    *
    * @param documentId ID do documento do Google Docs.
    * @param data Texto que será inserido como novo conteúdo do documento.
+   * @param opts.format Formato de `data`: "text" (padrão) ou "markdown".
    * @returns Resposta do endpoint `documents.batchUpdate`.
    *
    * @see https://developers.google.com/docs/api/reference/rest/v1/documents/batchUpdate
    */
-  async updateById(documentId: string, data: string): Promise<any> {
+  async updateById(
+    documentId: string,
+    data: string,
+    opts?: { format?: DocumentFormat }
+  ): Promise<any> {
     // Busca o doc para calcular o range real do body
     const doc = await this.getById(documentId);
 
-    const content = doc.body?.content ?? [];
-    const last = content[content.length - 1];
-
     // `endIndex` do último elemento normalmente representa o "fim" do body
-    const endIndex = typeof last?.endIndex === "number" ? last.endIndex : 1;
+    const endIndex = bodyEndIndex(doc);
 
     // range de deleção: [1, endIndex-1]
     // (endIndex é exclusivo, e existe um "fim" lógico que não deve ser deletado diretamente)
@@ -99,19 +176,244 @@ export class GoogleDocsApi {
           ]
         : []),
 
-      // Insere o novo texto no início do body
-      {
-        insertText: {
-          location: { index: 1 },
-          text: data,
-        },
-      },
+      // Insere o novo conteúdo no início do body
+      ...this.insertRequests(data, 1, opts?.format),
     ];
 
+    return this.batchUpdate(documentId, requests);
+  }
+
+  /**
+   * Adiciona `data` ao FIM do body, como novo(s) parágrafo(s).
+   *
+   * O conteúdo é inserido antes do "\n" final do documento, precedido de uma
+   * quebra de parágrafo (se o documento estiver vazio, ocupa o primeiro parágrafo).
+   *
+   * @param documentId ID do documento do Google Docs.
+   * @param data Texto a inserir.
+   * @param opts.format Formato de `data`: "text" (padrão) ou "markdown".
+   * @returns Resposta do endpoint `documents.batchUpdate`.
+   */
+  async appendById(
+    documentId: string,
+    data: string,
+    opts?: { format?: DocumentFormat }
+  ): Promise<any> {
+    const doc = await this.getById(documentId);
+    const endIndex = bodyEndIndex(doc);
+    const isEmpty = buildTextIndex(doc).text.trim() === "";
+
+    const requests = isEmpty
+      ? this.insertRequests(data, 1, opts?.format)
+      : this.insertRequests(data, endIndex - 1, opts?.format, {
+          leadingNewline: true,
+        });
+
+    return this.batchUpdate(documentId, requests);
+  }
+
+  /**
+   * Adiciona `data` no INÍCIO do body, como novo(s) parágrafo(s) antes do
+   * conteúdo existente.
+   *
+   * @param documentId ID do documento do Google Docs.
+   * @param data Texto a inserir.
+   * @param opts.format Formato de `data`: "text" (padrão) ou "markdown".
+   * @returns Resposta do endpoint `documents.batchUpdate`.
+   */
+  async prependById(
+    documentId: string,
+    data: string,
+    opts?: { format?: DocumentFormat }
+  ): Promise<any> {
+    const doc = await this.getById(documentId);
+    const isEmpty = buildTextIndex(doc).text.trim() === "";
+
+    const requests = this.insertRequests(data, 1, opts?.format, {
+      trailingNewline: !isEmpty,
+    });
+
+    return this.batchUpdate(documentId, requests);
+  }
+
+  /**
+   * Insere `data` como novo(s) parágrafo(s) logo após o parágrafo que contém
+   * a primeira ocorrência de `anchor` (busca no body, inclusive em tabelas).
+   *
+   * @param documentId ID do documento do Google Docs.
+   * @param anchor Texto usado como âncora (busca exata, diferencia maiúsculas).
+   * @param data Texto a inserir.
+   * @param opts.format Formato de `data`: "text" (padrão) ou "markdown".
+   * @returns Resposta do endpoint `documents.batchUpdate`.
+   * @throws Error se `anchor` não for encontrado.
+   */
+  async insertAfterText(
+    documentId: string,
+    anchor: string,
+    data: string,
+    opts?: { format?: DocumentFormat }
+  ): Promise<any> {
+    const doc = await this.getById(documentId);
+    const index = buildTextIndex(doc);
+
+    const found = index.text.indexOf(anchor);
+    if (!anchor || found === -1) {
+      throw new Error(`Texto "${anchor}" não encontrado no documento.`);
+    }
+
+    // parágrafo onde a âncora termina
+    const anchorEnd = found + anchor.length - 1;
+    const paragraph = [...index.paragraphs]
+      .reverse()
+      .find((p) => p.offset <= anchorEnd)!;
+
+    // insere antes do "\n" do parágrafo da âncora, quebrando o parágrafo
+    const requests = this.insertRequests(
+      data,
+      paragraph.endIndex - 1,
+      opts?.format,
+      { leadingNewline: true }
+    );
+
+    return this.batchUpdate(documentId, requests);
+  }
+
+  /**
+   * Substitui o conteúdo entre dois marcadores (os marcadores são mantidos).
+   *
+   * - Usa a primeira ocorrência de `startMarker` e a primeira ocorrência de
+   *   `endMarker` após ela.
+   * - Quebras de linha coladas aos marcadores são preservadas, então marcadores
+   *   em parágrafos próprios continuam em parágrafos próprios.
+   * - Em "text", a substituição é feita no ponto exato (inline); em "markdown",
+   *   o conteúdo sempre ocupa parágrafos próprios.
+   *
+   * @param documentId ID do documento do Google Docs.
+   * @param startMarker Marcador de início (ex.: "<<INICIO>>").
+   * @param endMarker Marcador de fim (ex.: "<<FIM>>").
+   * @param data Texto que substituirá o conteúdo entre os marcadores.
+   * @param opts.format Formato de `data`: "text" (padrão) ou "markdown".
+   * @returns Resposta do endpoint `documents.batchUpdate`.
+   * @throws Error se algum dos marcadores não for encontrado.
+   */
+  async replaceBetween(
+    documentId: string,
+    startMarker: string,
+    endMarker: string,
+    data: string,
+    opts?: { format?: DocumentFormat }
+  ): Promise<any> {
+    const doc = await this.getById(documentId);
+    const index = buildTextIndex(doc);
+    const { text } = index;
+
+    const startFound = startMarker ? text.indexOf(startMarker) : -1;
+    if (startFound === -1) {
+      throw new Error(`Marcador "${startMarker}" não encontrado no documento.`);
+    }
+
+    let from = startFound + startMarker.length;
+    const endFound = endMarker ? text.indexOf(endMarker, from) : -1;
+    if (endFound === -1) {
+      throw new Error(
+        `Marcador "${endMarker}" não encontrado após "${startMarker}".`
+      );
+    }
+
+    let to = endFound;
+    if (text[from] === "\n" && from < to) from++;
+    if (text[to - 1] === "\n" && to - 1 >= from) to--;
+
+    const startIndex = toDocIndex(index, from);
+    const requests: any[] = [];
+
+    if (to > from) {
+      requests.push({
+        deleteContentRange: {
+          range: { startIndex, endIndex: toDocIndex(index, to, true) },
+        },
+      });
+    }
+
+    const isMarkdown = opts?.format === "markdown";
+    requests.push(
+      ...this.insertRequests(data, startIndex, opts?.format, {
+        // em markdown o conteúdo precisa começar/terminar em parágrafo próprio
+        leadingNewline: isMarkdown && from > 0 && text[from - 1] !== "\n",
+        trailingNewline: isMarkdown && text[to] !== "\n",
+      })
+    );
+
+    return this.batchUpdate(documentId, requests);
+  }
+
+  /**
+   * Substitui todas as ocorrências de cada texto do mapa `replacements` no
+   * documento inteiro (body, cabeçalhos e rodapés) via `replaceAllText`.
+   *
+   * É gerado um request por chave, na ordem do objeto, e a resposta traz em
+   * `replies[i].replaceAllText.occurrencesChanged` quantas ocorrências foram
+   * trocadas para a i-ésima chave.
+   *
+   * @param documentId ID do documento do Google Docs.
+   * @param replacements Mapa texto procurado -> texto substituto.
+   * @param matchCase Diferencia maiúsculas/minúsculas (padrão: true).
+   * @returns Resposta do endpoint `documents.batchUpdate`.
+   *
+   * @see https://developers.google.com/docs/api/reference/rest/v1/documents/request#replacealltextrequest
+   */
+  async replaceAllText(
+    documentId: string,
+    replacements: Record<string, string>,
+    matchCase = true
+  ): Promise<any> {
+    const requests = Object.entries(replacements).map(
+      ([text, replaceText]) => ({
+        replaceAllText: {
+          containsText: { text, matchCase },
+          replaceText,
+        },
+      })
+    );
+
+    if (requests.length === 0) return { documentId, replies: [] };
+
+    return this.batchUpdate(documentId, requests);
+  }
+
+  /**
+   * POST /v1/documents/{documentId}:batchUpdate
+   *
+   * @see https://developers.google.com/docs/api/reference/rest/v1/documents/batchUpdate
+   */
+  private async batchUpdate(documentId: string, requests: any[]): Promise<any> {
     return this.google.post(
       "https://docs.googleapis.com",
       `/v1/documents/${encodeURIComponent(documentId)}:batchUpdate`,
       { requests }
     );
   }
+
+  /**
+   * Requests que inserem `data` em `index`, como texto simples ou Markdown.
+   * As opções de quebra de parágrafo seguem `markdownToDocsRequests`.
+   */
+  private insertRequests(
+    data: string,
+    index: number,
+    format: DocumentFormat = "text",
+    opts: { leadingNewline?: boolean; trailingNewline?: boolean } = {}
+  ): any[] {
+    if (format === "markdown") {
+      return markdownToDocsRequests(data, index, opts);
+    }
+
+    const text =
+      (opts.leadingNewline ? "\n" : "") +
+      data +
+      (opts.trailingNewline ? "\n" : "");
+    if (!text) return [];
+
+    return [{ insertText: { location: { index }, text } }];
+  }
 }
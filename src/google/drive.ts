@@ -1,4 +1,7 @@
-import { GoogleApi, Query } from "./google";
+import { randomBytes } from "crypto";
+
+import { BinaryResponse, GoogleApi, Query } from "./google";
+import { GoogleApiError } from "./errors";
 
 export type DriveListParams = {
   pageSize?: number;
@@ -9,6 +12,8 @@ export type DriveListParams = {
   sharedDriveId?: string;
 };
 
+export const FOLDER_MIME_TYPE = "application/vnd.google-apps.folder";
+
 export interface DriveFile {
   id: string;
   name?: string;
@@ -18,11 +23,305 @@ export interface DriveFile {
   createdTime?: string; // RFC3339
   webViewLink?: string;
   size?: string;
+  /** ID do Drive compartilhado que contém o arquivo */
+  driveId?: string;
+  trashed?: boolean;
   owners?: {
     displayName?: string;
     emailAddress?: string;
     me?: boolean;
   }[];
+
+  /** Caminho relativo à pasta percorrida (apenas em `walkFolder`) */
+  path?: string;
+}
+
+/** Papéis de permissão do Drive (organizer/fileOrganizer só em Drives compartilhados). */
+export type DrivePermissionRole =
+  | "owner"
+  | "organizer"
+  | "fileOrganizer"
+  | "writer"
+  | "commenter"
+  | "reader";
+
+/** Quem recebe o acesso. */
+export type DrivePermissionType = "user" | "group" | "domain" | "anyone";
+
+export interface DrivePermission {
+  id: string;
+  type: DrivePermissionType;
+  role: DrivePermissionRole;
+  emailAddress?: string;
+  domain?: string;
+  displayName?: string;
+  pendingOwner?: boolean;
+  deleted?: boolean;
+  /** Detalhes em Drives compartilhados (permissão herdada da pasta/Drive). */
+  permissionDetails?: {
+    permissionType?: string;
+    role?: DrivePermissionRole;
+    inherited?: boolean;
+    inheritedFrom?: string;
+  }[];
+}
+
+/** Revisão de um arquivo (`revisions.list` / `revisions.get`). */
+export interface DriveRevision {
+  id: string;
+  modifiedTime?: string;
+  mimeType?: string;
+  keepForever?: boolean;
+  size?: string;
+  lastModifyingUser?: { displayName?: string; emailAddress?: string };
+  /** Arquivos Google: formato -> URL de exportação da revisão */
+  exportLinks?: Record<string, string>;
+}
+
+const REVISION_FIELDS =
+  "id,modifiedTime,mimeType,keepForever,size,lastModifyingUser(displayName,emailAddress)";
+
+const PERMISSION_FIELDS =
+  "id,type,role,emailAddress,domain,displayName,pendingOwner,deleted,permissionDetails";
+
+/** Escapa um valor para uso entre aspas simples na query `q` do Drive. */
+function escapeQueryValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/'/g, "\\'");
+}
+
+/**
+ * Formatos de exportação suportados por tipo de arquivo Google
+ * (formato -> MIME de destino do `files.export`).
+ */
+export const EXPORT_FORMATS: Record<string, Record<string, string>> = {
+  "application/vnd.google-apps.document": {
+    pdf: "application/pdf",
+    docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    odt: "application/vnd.oasis.opendocument.text",
+    txt: "text/plain",
+    html: "text/html",
+  },
+  "application/vnd.google-apps.spreadsheet": {
+    xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    csv: "text/csv",
+    ods: "application/x-vnd.oasis.opendocument.spreadsheet",
+    pdf: "application/pdf",
+  },
+};
+
+/**
+ * MIME por extensão, usado quando o MIME do upload não é informado.
+ */
+export const UPLOAD_MIME_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  odt: "application/vnd.oasis.opendocument.text",
+  rtf: "application/rtf",
+  txt: "text/plain",
+  html: "text/html",
+  md: "text/markdown",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ods: "application/vnd.oasis.opendocument.spreadsheet",
+  csv: "text/csv",
+  tsv: "text/tab-separated-values",
+  ppt: "application/vnd.ms-powerpoint",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  json: "application/json",
+  xml: "application/xml",
+  zip: "application/zip",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+};
+
+/**
+ * Tipo Google de destino na conversão durante o upload (MIME de origem -> MIME Google).
+ */
+export const CONVERSION_TARGETS: Record<string, string> = {
+  "application/msword": "application/vnd.google-apps.document",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+    "application/vnd.google-apps.document",
+  "application/vnd.oasis.opendocument.text":
+    "application/vnd.google-apps.document",
+  "application/rtf": "application/vnd.google-apps.document",
+  "text/plain": "application/vnd.google-apps.document",
+  "text/html": "application/vnd.google-apps.document",
+  "text/markdown": "application/vnd.google-apps.document",
+  "application/vnd.ms-excel": "application/vnd.google-apps.spreadsheet",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet":
+    "application/vnd.google-apps.spreadsheet",
+  "application/vnd.oasis.opendocument.spreadsheet":
+    "application/vnd.google-apps.spreadsheet",
+  "text/csv": "application/vnd.google-apps.spreadsheet",
+  "text/tab-separated-values": "application/vnd.google-apps.spreadsheet",
+  "application/vnd.ms-powerpoint": "application/vnd.google-apps.presentation",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation":
+    "application/vnd.google-apps.presentation",
+};
+
+/** Metadados enviados junto com o conteúdo no upload. */
+export type DriveUploadMetadata = {
+  name: string;
+  parents?: string[];
+  /** MIME Google de destino, para converter (ex.: application/vnd.google-apps.document) */
+  mimeType?: string;
+  description?: string;
+};
+
+/** Tamanho a partir do qual `upload` usa o modo resumable (5MB). */
+const RESUMABLE_THRESHOLD = 5 * 1024 * 1024;
+
+/** Os chunks do upload resumable precisam ser múltiplos de 256KB. */
+const CHUNK_GRANULARITY = 256 * 1024;
+
+/** Tipos amigáveis aceitos em `DriveSearchFilters.type`. */
+export type DriveFileType = "doc" | "sheet" | "slides" | "folder" | "pdf";
+
+const FILE_TYPE_MIME: Record<DriveFileType, string> = {
+  doc: "application/vnd.google-apps.document",
+  sheet: "application/vnd.google-apps.spreadsheet",
+  slides: "application/vnd.google-apps.presentation",
+  folder: FOLDER_MIME_TYPE,
+  pdf: "application/pdf",
+};
+
+/**
+ * Filtros estruturados compilados para a query `q` do Drive por `buildDriveQuery`.
+ */
+export type DriveSearchFilters = {
+  /** Parte do nome do arquivo */
+  nameContains?: string;
+
+  /** Busca no conteúdo indexado (texto do arquivo, nome e descrição) */
+  fullText?: string;
+
+  /** Um ou mais tipos (combinados com "or") */
+  type?: DriveFileType | DriveFileType[];
+
+  /** ID da pasta pai */
+  parentId?: string;
+
+  /** Datas em ISO (2026-10-19, 2026-10-19T10:00:00Z) ou dd/mm/aaaa */
+  modifiedAfter?: string;
+  modifiedBefore?: string;
+
+  /** E-mail do proprietário */
+  owner?: string;
+
+  starred?: boolean;
+
+  /** Inclui arquivos na lixeira (padrão: false) */
+  includeTrashed?: boolean;
+
+  /** Query bruta do Drive, combinada com "and" aos demais filtros */
+  q?: string;
+};
+
+/**
+ * Converte uma data de filtro para RFC 3339 (UTC), aceitando ISO ou dd/mm/aaaa.
+ *
+ * @throws Error se a data for inválida.
+ */
+function toRfc3339(value: string, field: string): string {
+  const br = /^(\d{2})\/(\d{2})\/(\d{4})$/.exec(value.trim());
+  const date = br
+    ? new Date(Date.UTC(Number(br[3]), Number(br[2]) - 1, Number(br[1])))
+    : new Date(value.trim());
+
+  if (
+    Number.isNaN(date.getTime()) ||
+    (br && date.getUTCDate() !== Number(br[1]))
+  ) {
+    throw new Error(
+      `${field} inválido: "${value}". Use aaaa-mm-dd, uma data ISO completa ou dd/mm/aaaa.`
+    );
+  }
+
+  return date.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+/**
+ * Compila filtros estruturados em uma query `q` do Drive, com os valores
+ * escapados corretamente.
+ *
+ * - Todos os filtros são combinados com "and".
+ * - `trashed=false` é adicionado, exceto com `includeTrashed` ou quando a
+ *   query bruta já trata `trashed`.
+ *
+ * Exemplo:
+ * ```ts
+ * buildDriveQuery({ nameContains: "Contrato d'Ávila", type: ["doc", "pdf"] });
+ * // name contains 'Contrato d\'Ávila' and (mimeType='application/vnd.google-apps.document' or mimeType='application/pdf') and trashed=false
+ * ```
+ *
+ * @throws Error com mensagem de validação (antes de qualquer chamada à API).
+ * @see https://developers.google.com/drive/api/guides/search-files
+ */
+export function buildDriveQuery(filters: DriveSearchFilters = {}): string {
+  const clauses: string[] = [];
+
+  if (filters.nameContains) {
+    clauses.push(`name contains '${escapeQueryValue(filters.nameContains)}'`);
+  }
+
+  if (filters.fullText) {
+    clauses.push(`fullText contains '${escapeQueryValue(filters.fullText)}'`);
+  }
+
+  if (filters.type !== undefined) {
+    const types = Array.isArray(filters.type) ? filters.type : [filters.type];
+    const invalid = types.filter((t) => !(t in FILE_TYPE_MIME));
+    if (types.length === 0 || invalid.length > 0) {
+      throw new Error(
+        `type inválido: "${invalid.join(", ")}". Use: ${Object.keys(
+          FILE_TYPE_MIME
+        ).join(", ")}.`
+      );
+    }
+    const mimes = types.map((t) => `mimeType='${FILE_TYPE_MIME[t]}'`);
+    clauses.push(mimes.length > 1 ? `(${mimes.join(" or ")})` : mimes[0]);
+  }
+
+  if (filters.parentId) {
+    clauses.push(`'${escapeQueryValue(filters.parentId)}' in parents`);
+  }
+
+  const after = filters.modifiedAfter
+    ? toRfc3339(filters.modifiedAfter, "modifiedAfter")
+    : null;
+  const before = filters.modifiedBefore
+    ? toRfc3339(filters.modifiedBefore, "modifiedBefore")
+    : null;
+
+  if (after && before && after >= before) {
+    throw new Error("modifiedAfter deve ser anterior a modifiedBefore.");
+  }
+  if (after) clauses.push(`modifiedTime > '${after}'`);
+  if (before) clauses.push(`modifiedTime < '${before}'`);
+
+  if (filters.owner) {
+    if (!/^[^\s@']+@[^\s@']+$/.test(filters.owner)) {
+      throw new Error(`owner inválido: "${filters.owner}". Informe um e-mail.`);
+    }
+    clauses.push(`'${escapeQueryValue(filters.owner)}' in owners`);
+  }
+
+  if (filters.starred !== undefined) {
+    if (typeof filters.starred !== "boolean") {
+      throw new Error("starred deve ser true ou false.");
+    }
+    clauses.push(`starred=${filters.starred}`);
+  }
+
+  if (filters.q) clauses.push(`(${filters.q})`);
+
+  if (!filters.includeTrashed && !/\btrashed\b/.test(filters.q ?? "")) {
+    clauses.push("trashed=false");
+  }
+
+  return clauses.join(" and ");
 }
 
 export class GoogleDriveApi {
@@ -88,6 +387,222 @@ export class GoogleDriveApi {
     );
   }
 
+  /**
+   * Segue `nextPageToken` automaticamente até acabar ou atingir `maxItems`.
+   *
+   * Retorna `nextPageToken` apenas quando a listagem foi truncada por `maxItems`,
+   * permitindo continuar de onde parou.
+   */
+  async getAllPages(
+    params: DriveListParams = {},
+    maxItems = Infinity
+  ): Promise<{ files: DriveFile[]; nextPageToken?: string }> {
+    const files: DriveFile[] = [];
+    let pageToken = params.pageToken;
+    const fields = params.fields ?? "nextPageToken,files(id,name,mimeType)";
+
+    do {
+      const page = await this.getAll({
+        ...params,
+        fields,
+        pageToken,
+        pageSize: Math.min(params.pageSize ?? 1000, maxItems - files.length),
+      });
+
+      files.push(...(page.files ?? []));
+      pageToken = page.nextPageToken;
+    } while (pageToken && files.length < maxItems);
+
+    return { files, nextPageToken: pageToken };
+  }
+
+  /**
+   * Percorre recursivamente uma pasta (ou a raiz de um Drive compartilhado),
+   * retornando arquivos e subpastas com o caminho completo relativo a ela
+   * (ex.: "Clientes/2026/Contrato.docx").
+   *
+   * A travessia é em largura (pasta por pasta), com todas as páginas de cada
+   * pasta, e para ao atingir `maxItems`.
+   *
+   * @param folderId ID da pasta (ou do Drive compartilhado) inicial.
+   * @param opts.q Filtro adicional aplicado aos arquivos. Pastas são sempre
+   *   percorridas, mas com filtro só entram no resultado se o atenderem
+   *   (uma consulta extra por pasta que tenha subpastas).
+   * @param opts.includeTrashed Inclui itens na lixeira (padrão: false).
+   * @param opts.fields Campos de cada arquivo (id, name, mimeType são sempre incluídos).
+   * @param opts.maxItems Limite de itens retornados.
+   */
+  async walkFolder(
+    folderId: string,
+    opts: {
+      q?: string;
+      fields?: string;
+      maxItems?: number;
+      includeTrashed?: boolean;
+    } = {}
+  ): Promise<{ files: DriveFile[]; truncated: boolean }> {
+    const maxItems = opts.maxItems ?? Infinity;
+    const fileFields = Array.from(
+      new Set(["id", "name", "mimeType", ...(opts.fields?.split(",") ?? [])])
+    )
+      .map((f) => f.trim())
+      .filter(Boolean)
+      .join(",");
+
+    const files: DriveFile[] = [];
+    const queue: { id: string; path: string }[] = [{ id: folderId, path: "" }];
+    const visited = new Set<string>();
+    let truncated = false;
+
+    while (queue.length > 0 && files.length < maxItems) {
+      const folder = queue.shift()!;
+      if (visited.has(folder.id)) continue;
+      visited.add(folder.id);
+
+      const parentQ = `'${escapeQueryValue(folder.id)}' in parents${
+        opts.includeTrashed ? "" : " and trashed=false"
+      }`;
+      const q = opts.q
+        ? `${parentQ} and (mimeType='${FOLDER_MIME_TYPE}' or (${opts.q}))`
+        : parentQ;
+
+      const { files: children } = await this.getAllPages({
+        q,
+        fields: `nextPageToken,files(${fileFields})`,
+        orderBy: "folder,name",
+      });
+
+      // com filtro, a listagem traz todas as subpastas (para percorrê-las);
+      // as que atendem ao filtro vêm de uma consulta só de pastas
+      let matchingFolders: Set<string> | null = null;
+      if (opts.q && children.some((c) => c.mimeType === FOLDER_MIME_TYPE)) {
+        const { files: matches } = await this.getAllPages({
+          q: `${parentQ} and mimeType='${FOLDER_MIME_TYPE}' and (${opts.q})`,
+          fields: "nextPageToken,files(id)",
+        });
+        matchingFolders = new Set(matches.map((m) => m.id));
+      }
+
+      for (const child of children) {
+        const path = folder.path ? `${folder.path}/${child.name}` : child.name!;
+        const isFolder = child.mimeType === FOLDER_MIME_TYPE;
+        if (isFolder) queue.push({ id: child.id, path });
+
+        // pasta que não atende ao filtro: só é percorrida
+        if (isFolder && matchingFolders && !matchingFolders.has(child.id)) {
+          continue;
+        }
+
+        if (files.length >= maxItems) {
+          truncated = true;
+          break;
+        }
+        files.push({ ...child, path });
+      }
+    }
+
+    return { files, truncated: truncated || queue.length > 0 };
+  }
+
+  /**
+   * GET /drive/v3/files/{fileId}/export
+   * Exporta um arquivo Google (Docs/Sheets) no MIME informado e retorna o
+   * conteúdo binário.
+   *
+   * Observação:
+   * - A API limita o conteúdo exportado a 10MB.
+   * - Planilhas exportadas em CSV contêm apenas a primeira aba.
+   *
+   * @see https://developers.google.com/drive/api/reference/rest/v3/files/export
+   */
+  async export(fileId: string, mimeType: string): Promise<BinaryResponse> {
+    return this.google.download(
+      "https://www.googleapis.com",
+      `/drive/v3/files/${encodeURIComponent(fileId)}/export`,
+      { mimeType }
+    );
+  }
+
+  /**
+   * GET /drive/v3/files/{fileId}/revisions
+   * Lista todas as revisões do arquivo, da mais antiga para a mais recente
+   * (seguindo `nextPageToken`).
+   *
+   * Em arquivos Google (Docs, Sheets), revisões próximas podem ser agrupadas
+   * pelo Drive; a lista não traz cada edição individual.
+   */
+  async listRevisions(fileId: string): Promise<DriveRevision[]> {
+    const revisions: DriveRevision[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const query: Query = {
+        fields: `nextPageToken,revisions(${REVISION_FIELDS})`,
+        pageSize: "200",
+      };
+      if (pageToken) query.pageToken = pageToken;
+
+      const page = await this.google.get(
+        "https://www.googleapis.com",
+        `/drive/v3/files/${encodeURIComponent(fileId)}/revisions`,
+        query
+      );
+
+      revisions.push(...(page.revisions ?? []));
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    return revisions;
+  }
+
+  /**
+   * GET /drive/v3/files/{fileId}/revisions/{revisionId}
+   * Metadados da revisão, incluindo `exportLinks` (arquivos Google).
+   */
+  async getRevision(
+    fileId: string,
+    revisionId: string,
+    fields = `${REVISION_FIELDS},exportLinks`
+  ): Promise<DriveRevision> {
+    return this.google.get(
+      "https://www.googleapis.com",
+      `/drive/v3/files/${encodeURIComponent(
+        fileId
+      )}/revisions/${encodeURIComponent(revisionId)}`,
+      { fields }
+    );
+  }
+
+  /**
+   * Baixa o conteúdo de uma revisão de arquivo Google em outro formato
+   * (ex.: "text/plain"), pelo `exportLinks` da revisão: o `files.export`
+   * só exporta a versão atual.
+   *
+   * @throws Se a revisão não puder ser exportada no formato pedido.
+   */
+  async exportRevision(
+    fileId: string,
+    revisionId: string,
+    mimeType: string
+  ): Promise<BinaryResponse> {
+    const revision = await this.getRevision(fileId, revisionId);
+    const link = revision.exportLinks?.[mimeType];
+    if (!link) {
+      throw new Error(
+        `A revisão ${revisionId} não pode ser exportada como ${mimeType}. Formatos disponíveis: ${
+          Object.keys(revision.exportLinks ?? {}).join(", ") || "nenhum"
+        }`
+      );
+    }
+
+    const url = new URL(link);
+    return this.google.download(
+      url.origin,
+      url.pathname,
+      Object.fromEntries(url.searchParams)
+    );
+  }
+
   /**
    * PATCH /drive/v3/files/{fileId}
    * Atualiza metadados (ex: name, description, starred, etc.)
@@ -123,6 +638,507 @@ export class GoogleDriveApi {
     );
   }
 
+  /**
+   * POST /drive/v3/files/{fileId}/copy
+   * Cria uma cópia do arquivo (ex: a partir de um modelo), opcionalmente com
+   * outro nome e em outra pasta.
+   */
+  async copy(
+    fileId: string,
+    body: { name?: string; parents?: string[] } = {},
+    fields = "id,name,mimeType,parents,webViewLink"
+  ): Promise<DriveFile> {
+    return this.google.post(
+      "https://www.googleapis.com",
+      `/drive/v3/files/${encodeURIComponent(fileId)}/copy`,
+      body,
+      {
+        fields,
+        supportsAllDrives: "true",
+      }
+    );
+  }
+
+  /**
+   * Envia um arquivo escolhendo o modo pelo tamanho: multipart até 5MB,
+   * resumable acima disso (ou conforme `opts.uploadType`).
+   *
+   * @param metadata Nome, pasta e (opcional) MIME Google para conversão.
+   * @param data Conteúdo do arquivo.
+   * @param mimeType MIME do conteúdo enviado (ex.: application/pdf).
+   */
+  async upload(
+    metadata: DriveUploadMetadata,
+    data: Buffer,
+    mimeType: string,
+    opts: {
+      uploadType?: "multipart" | "resumable";
+      chunkSize?: number;
+      fields?: string;
+    } = {}
+  ): Promise<DriveFile> {
+    const uploadType =
+      opts.uploadType ??
+      (data.length > RESUMABLE_THRESHOLD ? "resumable" : "multipart");
+
+    return uploadType === "resumable"
+      ? this.uploadResumable(metadata, data, mimeType, opts)
+      : this.uploadMultipart(metadata, data, mimeType, opts.fields);
+  }
+
+  /**
+   * POST /upload/drive/v3/files?uploadType=multipart
+   *
+   * Envia metadados e conteúdo em uma única request `multipart/related`.
+   * Indicado para arquivos pequenos (até 5MB).
+   *
+   * @see https://developers.google.com/drive/api/guides/manage-uploads#multipart
+   */
+  async uploadMultipart(
+    metadata: DriveUploadMetadata,
+    data: Buffer,
+    mimeType: string,
+    fields = "id,name,mimeType,parents,webViewLink,size"
+  ): Promise<DriveFile> {
+    const boundary = `gdocs-app-${randomBytes(12).toString("hex")}`;
+
+    const body = Buffer.concat([
+      Buffer.from(
+        `--${boundary}\r\n` +
+          "Content-Type: application/json; charset=UTF-8\r\n\r\n" +
+          JSON.stringify(metadata) +
+          `\r\n--${boundary}\r\n` +
+          `Content-Type: ${mimeType}\r\n\r\n`
+      ),
+      data,
+      Buffer.from(`\r\n--${boundary}--`),
+    ]);
+
+    const resp = await this.google.send(
+      "POST",
+      "https://www.googleapis.com",
+      "/upload/drive/v3/files",
+      {
+        query: { uploadType: "multipart", fields, supportsAllDrives: "true" },
+        headers: { "Content-Type": `multipart/related; boundary=${boundary}` },
+        body,
+      }
+    );
+
+    return JSON.parse(resp.data.toString("utf8"));
+  }
+
+  /**
+   * Upload resumable: inicia uma sessão e envia o conteúdo em chunks.
+   *
+   * Fluxo:
+   * 1) POST /upload/drive/v3/files?uploadType=resumable com os metadados;
+   *    a URL da sessão vem no header `Location`.
+   * 2) PUT de cada chunk com `Content-Range: bytes início-fim/total`.
+   *    O Google responde 308 enquanto faltar conteúdo e 200/201 no final.
+   * 3) Se um chunk falhar (rede ou 5xx), consulta o status da sessão
+   *    (`Content-Range: bytes * /total`) e retoma do último byte confirmado,
+   *    até `maxResumes` vezes.
+   *
+   * @param opts.chunkSize Tamanho do chunk em bytes (múltiplo de 256KB; padrão: 8MB).
+   * @param opts.maxResumes Retomadas permitidas após falhas (padrão: 5).
+   *
+   * @see https://developers.google.com/drive/api/guides/manage-uploads#resumable
+   */
+  async uploadResumable(
+    metadata: DriveUploadMetadata,
+    data: Buffer,
+    mimeType: string,
+    opts: { chunkSize?: number; maxResumes?: number; fields?: string } = {}
+  ): Promise<DriveFile> {
+    const total = data.length;
+    const chunkSize = Math.max(
+      CHUNK_GRANULARITY,
+      Math.floor((opts.chunkSize ?? 8 * 1024 * 1024) / CHUNK_GRANULARITY) *
+        CHUNK_GRANULARITY
+    );
+    const maxResumes = opts.maxResumes ?? 5;
+
+    const init = await this.google.send(
+      "POST",
+      "https://www.googleapis.com",
+      "/upload/drive/v3/files",
+      {
+        query: {
+          uploadType: "resumable",
+          fields: opts.fields ?? "id,name,mimeType,parents,webViewLink,size",
+          supportsAllDrives: "true",
+        },
+        headers: {
+          "Content-Type": "application/json; charset=UTF-8",
+          "X-Upload-Content-Type": mimeType,
+          "X-Upload-Content-Length": String(total),
+        },
+        body: JSON.stringify(metadata),
+      }
+    );
+
+    const sessionUrl = init.headers.location;
+    if (!sessionUrl) {
+      throw new Error("O Google não retornou a URL da sessão de upload.");
+    }
+
+    let offset = 0;
+    let resumes = 0;
+
+    while (true) {
+      const end = Math.min(offset + chunkSize, total);
+      const contentRange =
+        total === 0 ? "bytes */0" : `bytes ${offset}-${end - 1}/${total}`;
+
+      let resp;
+      try {
+        resp = await this.google.send("PUT", sessionUrl, "", {
+          headers: { "Content-Range": contentRange },
+          body: data.subarray(offset, end),
+          okStatuses: [308],
+          retry: false,
+        });
+      } catch (err) {
+        const transient =
+          !(err instanceof GoogleApiError) ||
+          err.status >= 500 ||
+          err.status === 429;
+        if (!transient || resumes >= maxResumes) throw err;
+
+        resumes++;
+        await new Promise((r) => setTimeout(r, 1000 * 2 ** (resumes - 1)));
+        const status = await this.resumableStatus(sessionUrl, total);
+        if (status.done) return status.file!;
+        offset = status.received;
+        continue;
+      }
+
+      if (resp.status !== 308) {
+        return JSON.parse(resp.data.toString("utf8"));
+      }
+
+      offset = parseRangeHeader(resp.headers.range);
+    }
+  }
+
+  /**
+   * Consulta quantos bytes a sessão resumable já recebeu
+   * (PUT vazio com `Content-Range: bytes * /total`).
+   */
+  private async resumableStatus(
+    sessionUrl: string,
+    total: number
+  ): Promise<{ done: boolean; received: number; file?: DriveFile }> {
+    const resp = await this.google.send("PUT", sessionUrl, "", {
+      headers: { "Content-Range": `bytes */${total}` },
+      okStatuses: [308],
+    });
+
+    if (resp.status !== 308) {
+      return {
+        done: true,
+        received: total,
+        file: JSON.parse(resp.data.toString("utf8")),
+      };
+    }
+
+    return { done: false, received: parseRangeHeader(resp.headers.range) };
+  }
+
+  /**
+   * GET /drive/v3/files/{fileId}/permissions
+   * Lista todas as permissões do arquivo (seguindo `nextPageToken`).
+   */
+  async listPermissions(fileId: string): Promise<DrivePermission[]> {
+    const permissions: DrivePermission[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const query: Query = {
+        fields: `nextPageToken,permissions(${PERMISSION_FIELDS})`,
+        pageSize: "100",
+        supportsAllDrives: "true",
+      };
+      if (pageToken) query.pageToken = pageToken;
+
+      const page = await this.google.get(
+        "https://www.googleapis.com",
+        `/drive/v3/files/${encodeURIComponent(fileId)}/permissions`,
+        query
+      );
+
+      permissions.push(...(page.permissions ?? []));
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    return permissions;
+  }
+
+  /**
+   * Localiza uma permissão pelo ID, pelo email (user/group) ou pelo domínio.
+   * A comparação de email/domínio ignora maiúsculas.
+   */
+  async findPermission(
+    fileId: string,
+    target: { permissionId?: string; emailAddress?: string; domain?: string }
+  ): Promise<DrivePermission | undefined> {
+    const email = target.emailAddress?.toLowerCase();
+    const domain = target.domain?.toLowerCase();
+
+    const permissions = await this.listPermissions(fileId);
+    return permissions.find((p) => {
+      if (target.permissionId) return p.id === target.permissionId;
+      if (email) return p.emailAddress?.toLowerCase() === email;
+      return p.type === "domain" && p.domain?.toLowerCase() === domain;
+    });
+  }
+
+  /**
+   * POST /drive/v3/files/{fileId}/permissions
+   * Concede acesso ao arquivo/pasta.
+   *
+   * @param opts.sendNotificationEmail Envia email ao destinatário (padrão do Google:
+   *   sim para user/group). Não se aplica a domain/anyone.
+   * @param opts.emailMessage Texto incluído no email de notificação.
+   * @param opts.transferOwnership Obrigatório quando `role` = owner.
+   * @see https://developers.google.com/drive/api/reference/rest/v3/permissions/create
+   */
+  async createPermission(
+    fileId: string,
+    permission: {
+      type: DrivePermissionType;
+      role: DrivePermissionRole;
+      emailAddress?: string;
+      domain?: string;
+      pendingOwner?: boolean;
+    },
+    opts: {
+      sendNotificationEmail?: boolean;
+      emailMessage?: string;
+      transferOwnership?: boolean;
+    } = {}
+  ): Promise<DrivePermission> {
+    const query: Query = {
+      fields: PERMISSION_FIELDS,
+      supportsAllDrives: "true",
+    };
+    if (opts.sendNotificationEmail !== undefined) {
+      query.sendNotificationEmail = String(opts.sendNotificationEmail);
+    }
+    if (opts.emailMessage) query.emailMessage = opts.emailMessage;
+    if (opts.transferOwnership) query.transferOwnership = "true";
+
+    return this.google.post(
+      "https://www.googleapis.com",
+      `/drive/v3/files/${encodeURIComponent(fileId)}/permissions`,
+      permission,
+      query
+    );
+  }
+
+  /**
+   * PATCH /drive/v3/files/{fileId}/permissions/{permissionId}
+   * Altera o papel de uma permissão existente.
+   */
+  async updatePermission(
+    fileId: string,
+    permissionId: string,
+    body: { role: DrivePermissionRole; pendingOwner?: boolean },
+    opts: { transferOwnership?: boolean } = {}
+  ): Promise<DrivePermission> {
+    const query: Query = {
+      fields: PERMISSION_FIELDS,
+      supportsAllDrives: "true",
+    };
+    if (opts.transferOwnership) query.transferOwnership = "true";
+
+    return this.google.patch(
+      "https://www.googleapis.com",
+      `/drive/v3/files/${encodeURIComponent(
+        fileId
+      )}/permissions/${encodeURIComponent(permissionId)}`,
+      body,
+      query
+    );
+  }
+
+  /**
+   * DELETE /drive/v3/files/{fileId}/permissions/{permissionId}
+   */
+  async deletePermission(fileId: string, permissionId: string): Promise<void> {
+    await this.google.delete(
+      "https://www.googleapis.com",
+      `/drive/v3/files/${encodeURIComponent(
+        fileId
+      )}/permissions/${encodeURIComponent(permissionId)}`,
+      { supportsAllDrives: "true" }
+    );
+  }
+
+  /**
+   * Transfere a propriedade de um arquivo do "Meu Drive" para outro usuário.
+   *
+   * Dentro do mesmo domínio Google Workspace a transferência é imediata.
+   * Quando o Google exige o aceite do destinatário (ex.: contas pessoais,
+   * `consentRequiredForOwnershipTransfer`), o usuário vira editor com
+   * `pendingOwner` e a transferência conclui quando ele aceitar.
+   *
+   * Arquivos em Drives compartilhados não têm dono individual: pertencem ao Drive.
+   */
+  async transferOwnership(
+    fileId: string,
+    emailAddress: string,
+    opts: { emailMessage?: string } = {}
+  ): Promise<{ permission: DrivePermission; pending: boolean }> {
+    const existing = await this.findPermission(fileId, { emailAddress });
+
+    try {
+      const permission = existing
+        ? await this.updatePermission(
+            fileId,
+            existing.id,
+            { role: "owner" },
+            { transferOwnership: true }
+          )
+        : await this.createPermission(
+            fileId,
+            { type: "user", role: "owner", emailAddress },
+            {
+              transferOwnership: true,
+              emailMessage: opts.emailMessage,
+            }
+          );
+      return { permission, pending: false };
+    } catch (err) {
+      if (
+        !(err instanceof GoogleApiError) ||
+        err.reason !== "consentRequiredForOwnershipTransfer"
+      ) {
+        throw err;
+      }
+    }
+
+    const permission = existing
+      ? await this.updatePermission(fileId, existing.id, {
+          role: "writer",
+          pendingOwner: true,
+        })
+      : await this.createPermission(
+          fileId,
+          { type: "user", role: "writer", emailAddress, pendingOwner: true },
+          { emailMessage: opts.emailMessage }
+        );
+    return { permission, pending: true };
+  }
+
+  /**
+   * Cria uma pasta dentro de `parentId` (pasta ou Drive compartilhado).
+   */
+  async createFolder(
+    name: string,
+    parentId: string,
+    fields = "id,name,mimeType,parents,webViewLink"
+  ): Promise<DriveFile> {
+    return this.create(
+      { name, mimeType: FOLDER_MIME_TYPE, parents: [parentId] },
+      fields
+    );
+  }
+
+  /**
+   * Busca uma subpasta pelo nome exato (fora da lixeira).
+   */
+  async findFolder(
+    name: string,
+    parentId: string
+  ): Promise<DriveFile | undefined> {
+    const { files } = await this.getAll({
+      q: `'${escapeQueryValue(
+        parentId
+      )}' in parents and name='${escapeQueryValue(
+        name
+      )}' and mimeType='${FOLDER_MIME_TYPE}' and trashed=false`,
+      fields: "files(id,name,mimeType,parents,webViewLink)",
+      orderBy: "createdTime",
+      pageSize: 1,
+    });
+    return files?.[0];
+  }
+
+  /**
+   * Garante que o caminho de pastas exista a partir de `rootId`, criando as
+   * pastas intermediárias que faltarem (ex.: "Clientes/ACME/2026").
+   *
+   * Pastas existentes com o mesmo nome são reaproveitadas; havendo duplicadas,
+   * usa a mais antiga.
+   *
+   * @returns A última pasta do caminho e a lista de caminhos criados.
+   */
+  async ensureFolderPath(
+    path: string,
+    rootId: string
+  ): Promise<{ folder: DriveFile; created: string[] }> {
+    const segments = path
+      .split("/")
+      .map((s) => s.trim())
+      .filter(Boolean);
+
+    if (segments.length === 0) {
+      throw new Error("caminho de pastas vazio");
+    }
+
+    const created: string[] = [];
+    let folder: DriveFile = { id: rootId };
+
+    for (let i = 0; i < segments.length; i++) {
+      const existing = await this.findFolder(segments[i], folder.id);
+      if (existing) {
+        folder = existing;
+      } else {
+        folder = await this.createFolder(segments[i], folder.id);
+        created.push(segments.slice(0, i + 1).join("/"));
+      }
+    }
+
+    return { folder, created };
+  }
+
+  /**
+   * Move o arquivo para `folderId`, removendo-o das pastas atuais.
+   */
+  async move(
+    fileId: string,
+    folderId: string,
+    fields = "id,name,mimeType,parents,webViewLink"
+  ): Promise<DriveFile> {
+    const current = await this.getById(fileId, "id,parents");
+    const removeParents = (current.parents ?? [])
+      .filter((p) => p !== folderId)
+      .join(",");
+
+    return this.updateById(
+      fileId,
+      {},
+      {
+        fields,
+        addParents: folderId,
+        removeParents: removeParents || undefined,
+      }
+    );
+  }
+
+  /**
+   * Move o arquivo para a lixeira (`trashed: true`) ou o restaura (`trashed: false`).
+   */
+  async setTrashed(
+    fileId: string,
+    trashed: boolean,
+    fields = "id,name,mimeType,parents,trashed,webViewLink"
+  ): Promise<DriveFile> {
+    return this.updateById(fileId, { trashed }, { fields });
+  }
+
   /**
    * POST /drive/v3/files
    * Cria arquivo (Google Doc, Sheet, pasta, etc.)
@@ -142,3 +1158,12 @@ export class GoogleDriveApi {
     );
   }
 }
+
+/**
+ * Lê o header `Range` do 308 ("bytes=0-1048575") e retorna o próximo byte a enviar.
+ * Sem header, nada foi recebido ainda.
+ */
+function parseRangeHeader(range: string | undefined): number {
+  const m = /bytes=\d+-(\d+)/.exec(range ?? "");
+  return m ? Number(m[1]) + 1 : 0;
+}
@@ -0,0 +1,170 @@
+/**
+ * Erro de uma chamada às APIs Google (Drive/Docs/Sheets ou endpoint de token).
+ *
+ * Carrega o status HTTP, os campos do payload de erro do Google e uma dica
+ * (`hint`) em português com a ação esperada do operador, ex.:
+ * "compartilhe o arquivo com xxx@yyy.iam.gserviceaccount.com".
+ *
+ * Payload de erro padrão das APIs Google:
+ * ```json
+ * { "error": { "code": 403, "message": "...", "status": "PERMISSION_DENIED",
+ *   "errors": [{ "reason": "insufficientFilePermissions" }],
+ *   "details": [{ "reason": "SERVICE_DISABLED", "metadata": { "service": "docs.googleapis.com" } }] } }
+ * ```
+ */
+export class GoogleApiError extends Error {
+  /** Status HTTP da resposta */
+  readonly status: number;
+
+  /** `error.code` do payload (normalmente igual ao status HTTP) */
+  readonly code: number | null;
+
+  /** `error.status` do payload (ex.: PERMISSION_DENIED, NOT_FOUND) */
+  readonly errorStatus: string | null;
+
+  /** Motivo detalhado (ex.: insufficientFilePermissions, SERVICE_DISABLED, invalid_grant) */
+  readonly reason: string | null;
+
+  /** Mensagem original do Google (ou o body bruto, se não for JSON) */
+  readonly googleMessage: string;
+
+  /** Serviço envolvido, quando informado pelo Google (ex.: docs.googleapis.com) */
+  readonly service: string | null;
+
+  readonly method: string;
+  readonly url: string;
+
+  /** Mensagem acionável em português para o operador */
+  readonly hint: string;
+
+  constructor(opts: {
+    status: number;
+    body: string;
+    method: string;
+    url: string;
+    clientEmail?: string;
+  }) {
+    const parsed = parseErrorBody(opts.body);
+
+    super(`Google API erro ${opts.status}: ${parsed.message}`);
+    this.name = "GoogleApiError";
+
+    this.status = opts.status;
+    this.code = parsed.code;
+    this.errorStatus = parsed.status;
+    this.reason = parsed.reason;
+    this.googleMessage = parsed.message;
+    this.service = parsed.service;
+    this.method = opts.method;
+    this.url = opts.url;
+    this.hint = buildHint(this, opts.clientEmail);
+  }
+
+  /** Dados serializáveis para o payload de resultado. */
+  toJSON() {
+    return {
+      status: this.status,
+      code: this.code,
+      errorStatus: this.errorStatus,
+      reason: this.reason,
+      service: this.service,
+      method: this.method,
+      url: this.url,
+      message: this.googleMessage,
+    };
+  }
+}
+
+function parseErrorBody(body: string): {
+  code: number | null;
+  status: string | null;
+  reason: string | null;
+  message: string;
+  service: string | null;
+} {
+  let json: any;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    return {
+      code: null,
+      status: null,
+      reason: null,
+      message: body,
+      service: null,
+    };
+  }
+
+  // endpoint OAuth: { "error": "invalid_grant", "error_description": "..." }
+  if (typeof json?.error === "string") {
+    return {
+      code: null,
+      status: null,
+      reason: json.error,
+      message: json.error_description ?? json.error,
+      service: null,
+    };
+  }
+
+  const err = json?.error ?? {};
+  const info = (err.details ?? []).find((d: any) => d?.reason);
+
+  return {
+    code: typeof err.code === "number" ? err.code : null,
+    status: err.status ?? null,
+    reason: info?.reason ?? err.errors?.[0]?.reason ?? null,
+    message: err.message ?? body,
+    service: info?.metadata?.service ?? null,
+  };
+}
+
+/**
+ * Mapeia os casos comuns para uma mensagem acionável.
+ */
+function buildHint(err: GoogleApiError, clientEmail?: string): string {
+  const account = clientEmail ?? "o email do Service Account";
+  const reason = err.reason ?? "";
+
+  if (reason === "SERVICE_DISABLED" || reason === "accessNotConfigured") {
+    const service = err.service ? ` (${err.service})` : "";
+    return `A API${service} não está habilitada no projeto do Google Cloud. Habilite-a no console do Google Cloud e tente novamente.`;
+  }
+
+  if (reason === "storageQuotaExceeded") {
+    return "O Service Account não tem quota de armazenamento. Crie o arquivo dentro de um Drive compartilhado (sharedDriveId) ou use uma conta Google Workspace.";
+  }
+
+  if (
+    err.status === 429 ||
+    err.errorStatus === "RESOURCE_EXHAUSTED" ||
+    /rateLimitExceeded/i.test(reason)
+  ) {
+    return "Limite de requisições da API do Google atingido. Aguarde alguns instantes e tente novamente.";
+  }
+
+  if (reason === "invalid_grant" || reason === "invalid_client") {
+    return "As credenciais do Service Account foram rejeitadas pelo Google. Verifique se a chave (private_key) é válida e não foi revogada.";
+  }
+
+  if (err.status === 401 || err.errorStatus === "UNAUTHENTICATED") {
+    return "Falha de autenticação com o Google. Verifique as credenciais do Service Account.";
+  }
+
+  if (err.status === 403 || err.errorStatus === "PERMISSION_DENIED") {
+    return `Sem permissão para acessar o arquivo. Compartilhe o arquivo (ou a pasta) com ${account}, com permissão de edição se precisar alterá-lo.`;
+  }
+
+  if (err.status === 404 || err.errorStatus === "NOT_FOUND") {
+    return `Arquivo não encontrado. Verifique o ID informado e se o arquivo está compartilhado com ${account}.`;
+  }
+
+  if (err.status === 400 || err.errorStatus === "INVALID_ARGUMENT") {
+    return `Requisição inválida para a API do Google: ${err.googleMessage}`;
+  }
+
+  if (err.status >= 500) {
+    return `Serviço do Google indisponível no momento (erro ${err.status}). Tente novamente em alguns instantes.`;
+  }
+
+  return err.message;
+}
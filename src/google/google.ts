@@ -1,5 +1,6 @@
 import { createSign } from "crypto";
 import { parseToBase64Url } from "../utils";
+import { GoogleApiError } from "./errors";
 
 /**
  * Credenciais mínimas necessárias de um Service Account.
@@ -20,8 +21,63 @@ export interface ServiceAccountCredentials {
 /**
  * Tipo utilitário para querystring.
  * Ex.: { fields: "id,name", pageSize: "50" }
+ *
+ * Arrays viram parâmetros repetidos (ex.: `ranges=A1&ranges=B2`).
+ */
+export type Query = Record<string, string | string[]>;
+
+/**
+ * Resposta não-JSON (binária) retornada por `GoogleApi.download`.
+ */
+export interface BinaryResponse {
+  data: Buffer;
+  contentType: string;
+}
+
+/**
+ * Resposta bruta retornada por `GoogleApi.send` (headers com nomes em minúsculo).
  */
-export type Query = Record<string, string>;
+export interface RawResponse {
+  status: number;
+  headers: Record<string, string>;
+  data: Buffer;
+}
+
+/**
+ * Política de retentativa das requests.
+ *
+ * - Métodos idempotentes (GET/PUT/DELETE) são repetidos em `retryStatuses`
+ *   e em falhas de rede.
+ * - POST/PATCH só são repetidos em 429 (a request foi rejeitada antes de ser
+ *   processada), para não duplicar efeitos.
+ * - O header `Retry-After` (segundos ou data HTTP) tem prioridade sobre o backoff.
+ */
+export interface RetryPolicy {
+  /** Total de tentativas, incluindo a primeira (padrão: 3) */
+  maxAttempts: number;
+
+  /** Espera base do backoff exponencial: baseDelayMs * 2^(tentativa-1) (padrão: 500) */
+  baseDelayMs: number;
+
+  /** Teto de espera entre tentativas, inclusive para `Retry-After` (padrão: 30000) */
+  maxDelayMs: number;
+
+  /** Fração aleatória aplicada sobre a espera, de 0 a 1 (padrão: 0.2 = ±20%) */
+  jitter: number;
+
+  /** Status HTTP que disparam retentativa (padrão: 429, 500, 502, 503, 504) */
+  retryStatuses: number[];
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  jitter: 0.2,
+  retryStatuses: [429, 500, 502, 503, 504],
+};
+
+const IDEMPOTENT_METHODS = ["GET", "PUT", "DELETE"];
 
 /**
  * Cliente base para chamadas às APIs Google (Drive/Docs/Sheets).
@@ -35,6 +91,7 @@ export type Query = Record<string, string>;
 export class GoogleApi {
   private readonly creds: ServiceAccountCredentials;
   private readonly scopes: string;
+  private readonly retry: RetryPolicy;
 
   /**
    * Cache do token em memória (por instância).
@@ -53,13 +110,16 @@ export class GoogleApi {
    *  - documents
    *  - spreadsheets
    *
+   * @param opts.retry Ajustes da política de retentativa (opcional); ver `RetryPolicy`.
+   *   Use `{ maxAttempts: 1 }` para desativar.
+   *
    * Observação:
    * - Scopes precisam bater com o que seu app faz. Se você só lê, dá pra trocar por:
    *   `.../drive.readonly`, `.../documents.readonly`, `.../spreadsheets.readonly`.
    */
   constructor(
     credentials: ServiceAccountCredentials,
-    opts?: { scopes?: string[] }
+    opts?: { scopes?: string[]; retry?: Partial<RetryPolicy> }
   ) {
     if (
       !credentials?.client_email ||
@@ -82,6 +142,8 @@ export class GoogleApi {
             "https://www.googleapis.com/auth/spreadsheets",
           ]
     ).join(" ");
+
+    this.retry = { ...DEFAULT_RETRY_POLICY, ...opts?.retry };
   }
 
   /**
@@ -155,6 +217,58 @@ export class GoogleApi {
     return this.request<T>(baseUrl, path, { method: "DELETE", query });
   }
 
+  /**
+   * Executa um GET retornando o corpo bruto da resposta, sem parsear JSON
+   * (ex.: arquivos exportados/baixados do Drive).
+   *
+   * @returns Conteúdo em `Buffer` e o `Content-Type` da resposta.
+   */
+  public async download(
+    baseUrl: string,
+    path: string,
+    query: Query = {}
+  ): Promise<BinaryResponse> {
+    return this.request<BinaryResponse>(baseUrl, path, {
+      method: "GET",
+      query,
+      responseType: "binary",
+    });
+  }
+
+  /**
+   * Executa uma request com corpo bruto (Buffer/string) e headers próprios,
+   * retornando status, headers e corpo sem parsear (ex.: uploads do Drive).
+   *
+   * @param opts.headers Headers adicionais (ex.: Content-Type, Content-Range).
+   * @param opts.body Corpo enviado como está, sem JSON.stringify.
+   * @param opts.okStatuses Status fora de 2xx que não devem virar erro
+   *   (ex.: 308 "Resume Incomplete" do upload resumable).
+   * @param opts.retry `false` desativa as retentativas automáticas, para quando
+   *   o chamador trata a retomada por conta própria.
+   */
+  public async send(
+    method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE",
+    baseUrl: string,
+    path: string,
+    opts: {
+      query?: Query;
+      headers?: Record<string, string>;
+      body?: Buffer | string;
+      okStatuses?: number[];
+      retry?: boolean;
+    } = {}
+  ): Promise<RawResponse> {
+    return this.request<RawResponse>(baseUrl, path, {
+      method,
+      query: opts.query,
+      headers: opts.headers,
+      rawBody: opts.body,
+      okStatuses: opts.okStatuses,
+      retry: opts.retry,
+      responseType: "raw",
+    });
+  }
+
   /**
    * Método base de request.
    *
@@ -162,11 +276,15 @@ export class GoogleApi {
    * 1) Obtém access token via `getAccessToken()`.
    * 2) Monta URL (baseUrl + path + query).
    * 3) Envia fetch com Authorization Bearer.
-   * 4) Se erro HTTP: lança Error com status e body de resposta.
-   * 5) Se DELETE: retorna undefined.
-   * 6) Caso contrário: faz `resp.json()`.
+   * 4) Se 401: descarta o token em cache e repete UMA vez com token novo.
+   * 5) Se erro retentável (ver `RetryPolicy`): aguarda e repete.
+   * 6) Se erro HTTP: lança `GoogleApiError` com status e payload de erro do Google.
+   * 7) Se DELETE: retorna undefined.
+   * 8) Se `responseType: "binary"`: retorna `BinaryResponse` com o corpo bruto.
+   * 9) Se `responseType: "raw"`: retorna `RawResponse` (status, headers e corpo).
+   * 10) Caso contrário: faz `resp.json()`.
    *
-   * @throws Error "Google API erro {status}: {body}"
+   * @throws GoogleApiError "Google API erro {status}: {mensagem do Google}"
    */
   private async request<T>(
     baseUrl: string,
@@ -175,22 +293,29 @@ export class GoogleApi {
       method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
       query?: Query;
       body?: any;
+      rawBody?: Buffer | string;
+      headers?: Record<string, string>;
+      okStatuses?: number[];
+      retry?: boolean;
+      responseType?: "json" | "binary" | "raw";
     }
   ): Promise<T> {
-    const token = await this.getAccessToken();
-
     const url = new URL(baseUrl + path);
     const query = opts.query ?? {};
-    for (const [k, v] of Object.entries(query)) url.searchParams.set(k, v);
+    for (const [k, v] of Object.entries(query)) {
+      if (Array.isArray(v))
+        v.forEach((item) => url.searchParams.append(k, item));
+      else url.searchParams.set(k, v);
+    }
 
-    const headers: Record<string, string> = {
-      Authorization: `Bearer ${token}`,
-    };
+    const headers: Record<string, string> = { ...opts.headers };
 
-    let body: string | undefined;
+    let body: string | Buffer | undefined;
 
     // Só envia body em métodos que aceitam payload (POST/PUT/PATCH).
-    if (
+    if (opts.rawBody !== undefined) {
+      body = opts.rawBody;
+    } else if (
       opts.method !== "GET" &&
       opts.method !== "DELETE" &&
       opts.body !== undefined
@@ -199,22 +324,96 @@ export class GoogleApi {
       body = JSON.stringify(opts.body);
     }
 
-    const resp = await fetch(url.toString(), {
-      method: opts.method,
-      headers,
-      body,
-    } as any);
+    const idempotent = IDEMPOTENT_METHODS.includes(opts.method);
+    const maxAttempts = opts.retry === false ? 1 : this.retry.maxAttempts;
+    let refreshedToken = false;
+    let attempt = 0;
+    let resp: Response;
+
+    while (true) {
+      attempt++;
+
+      const token = await this.getAccessToken();
+      headers.Authorization = `Bearer ${token}`;
+
+      try {
+        resp = await fetch(url.toString(), {
+          method: opts.method,
+          headers,
+          body,
+        } as any);
+      } catch (err) {
+        // falha de rede: só repete quando a request é idempotente
+        if (!idempotent || attempt >= maxAttempts) throw err;
+        await sleep(this.backoffDelay(attempt));
+        continue;
+      }
+
+      // token revogado/expirado antes do previsto: renova uma única vez
+      if (resp.status === 401 && !refreshedToken) {
+        refreshedToken = true;
+        await resp.text();
+        this.accessToken = null;
+        this.accessTokenExpiresAtMs = 0;
+        attempt--;
+        continue;
+      }
+
+      const retryable =
+        this.retry.retryStatuses.includes(resp.status) &&
+        (idempotent || resp.status === 429);
+
+      if (!retryable || attempt >= maxAttempts) break;
+
+      await resp.text();
+      const retryAfter = parseRetryAfter(resp.headers.get("retry-after"));
+      await sleep(
+        retryAfter !== null
+          ? Math.min(retryAfter, this.retry.maxDelayMs)
+          : this.backoffDelay(attempt)
+      );
+    }
 
-    if (!resp.ok) {
+    if (!resp.ok && !opts.okStatuses?.includes(resp.status)) {
       const txt = await resp.text();
-      throw new Error(`Google API erro ${resp.status}: ${txt}`);
+      throw new GoogleApiError({
+        status: resp.status,
+        body: txt,
+        method: opts.method,
+        url: url.toString(),
+        clientEmail: this.creds.client_email,
+      });
+    }
+
+    if (opts.responseType === "raw") {
+      const data = Buffer.from(await resp.arrayBuffer());
+      const headers: Record<string, string> = {};
+      resp.headers.forEach((value, key) => (headers[key] = value));
+      return { status: resp.status, headers, data } as T;
     }
 
     if (opts.method === "DELETE") return undefined as T;
 
+    if (opts.responseType === "binary") {
+      const data = Buffer.from(await resp.arrayBuffer());
+      const contentType = resp.headers.get("content-type") ?? "";
+      return { data, contentType } as T;
+    }
+
     return (await resp.json()) as T;
   }
 
+  /**
+   * Espera antes da próxima tentativa: backoff exponencial com jitter,
+   * limitado a `maxDelayMs`.
+   */
+  private backoffDelay(attempt: number): number {
+    const { baseDelayMs, maxDelayMs, jitter } = this.retry;
+    const exp = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+    const delta = exp * jitter * (Math.random() * 2 - 1);
+    return Math.max(0, Math.round(exp + delta));
+  }
+
   /**
    * Gera o JWT (assertion) assinado com RS256 para OAuth 2.0 Service Account.
    *
@@ -276,7 +475,7 @@ export class GoogleApi {
    * - access_token: string
    * - expires_in: number (segundos) (opcional)
    *
-   * @throws Error "Erro ao obter access token: {status} - {body}"
+   * @throws GoogleApiError com `reason` do endpoint OAuth (ex.: invalid_grant)
    */
   private async getAccessToken(): Promise<string> {
     const now = Date.now();
@@ -298,7 +497,13 @@ export class GoogleApi {
 
     if (!resp.ok) {
       const txt = await resp.text();
-      throw new Error(`Erro ao obter access token: ${resp.status} - ${txt}`);
+      throw new GoogleApiError({
+        status: resp.status,
+        body: txt,
+        method: "POST",
+        url: this.creds.token_uri,
+        clientEmail: this.creds.client_email,
+      });
     }
 
     const data = await resp.json();
@@ -311,3 +516,24 @@ export class GoogleApi {
     return this.accessToken!;
   }
 }
+
+/**
+ * Interpreta o header `Retry-After` (segundos ou data HTTP).
+ *
+ * @returns Espera em ms, ou null se ausente/inválido.
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return null;
+
+  return Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,266 @@
+/**
+ * Comparação de versões de uma aba (cabeçalho na primeira linha): linhas
+ * identificadas por colunas-chave, classificadas em adicionadas, removidas e
+ * alteradas (com o antes/depois de cada célula).
+ *
+ * A versão anterior pode ser a própria tabela (`rows`) ou só um hash por
+ * linha (`hashes`); com hashes, as alterações são detectadas mas os valores
+ * anteriores não são conhecidos.
+ *
+ * @example
+ * // snapshot retornado por compararPlanilha, para guardar até a próxima execução
+ * {
+ *   "keys": ["id"],
+ *   "headers": ["id", "cliente", "valor"],
+ *   "hashes": { "42": "9f86d081884c7d65" },
+ *   "rows": { "42": { "id": "42", "cliente": "ACME", "valor": "1.500,00" } }
+ * }
+ */
+import { createHash } from "crypto";
+
+import { columnIndexToLetters } from "./a1";
+
+export type DiffValue = string | number | boolean | null;
+
+export type DiffRecord = Record<string, DiffValue>;
+
+export type SheetSnapshot = {
+  keys: string[];
+  headers: string[];
+
+  // chave -> hash da linha
+  hashes: Record<string, string>;
+
+  // chave -> linha (omitido quando só os hashes foram guardados)
+  rows?: Record<string, DiffRecord>;
+};
+
+export type CellChange = {
+  column: string;
+
+  // endereço A1 da célula na versão atual ("C7")
+  cell: string;
+  before: DiffValue;
+  after: DiffValue;
+};
+
+export type SheetDiff = {
+  keys: string[];
+  headers: string[];
+  added: { key: string; row: number; values: DiffRecord }[];
+  removed: { key: string; values: DiffRecord | null }[];
+
+  // `changes` é null quando a versão anterior só tem hashes
+  modified: {
+    key: string;
+    row: number;
+    changes: CellChange[] | null;
+    values: DiffRecord;
+  }[];
+  unchanged: number;
+
+  // chaves repetidas na versão atual (só a primeira ocorrência é comparada)
+  duplicateKeys: string[];
+
+  // colunas que entraram ou saíram do cabeçalho
+  addedColumns: string[];
+  removedColumns: string[];
+  snapshot: SheetSnapshot;
+};
+
+/** Valor comparável: vazio e ausente são iguais; números viram texto. */
+function normalize(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return String(value).trim();
+}
+
+/** Chave de uma linha: valores das colunas-chave separados por "|". */
+function keyOf(record: DiffRecord, keys: string[]): string {
+  return keys.map((k) => normalize(record[k])).join("|");
+}
+
+/**
+ * Hash de uma linha (16 primeiros caracteres do SHA-256 dos pares
+ * coluna/valor). Entram só as colunas de `headers` preenchidas, em ordem
+ * alfabética: incluir uma coluna vazia ou reordenar colunas não altera o hash.
+ */
+export function rowHash(record: DiffRecord, headers: string[]): string {
+  const pairs = headers
+    .map((h) => [h, normalize(record[h])])
+    .filter(([, v]) => v !== "")
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return createHash("sha256")
+    .update(JSON.stringify(pairs))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Converte a matriz lida da aba (cabeçalho na primeira linha) em registros,
+ * ignorando linhas vazias.
+ *
+ * @returns Cabeçalho e registros com o número (base-1) da linha na aba.
+ */
+export function tableToRecords(
+  values: unknown[][],
+  startRow: number = 0
+): { headers: string[]; records: { row: number; values: DiffRecord }[] } {
+  const headers = (values[0] ?? []).map((h) => normalize(h));
+  const records: { row: number; values: DiffRecord }[] = [];
+
+  values.slice(1).forEach((row, i) => {
+    if (!row.some((v) => normalize(v) !== "")) return;
+    const record: DiffRecord = {};
+    headers.forEach((h, c) => {
+      if (h) record[h] = (row[c] ?? null) as DiffValue;
+    });
+    records.push({ row: startRow + i + 2, values: record });
+  });
+
+  return { headers: headers.filter(Boolean), records };
+}
+
+/**
+ * Snapshot de uma versão, para comparar na próxima execução. Chaves
+ * repetidas ficam com a primeira ocorrência.
+ */
+export function buildSnapshot(
+  headers: string[],
+  records: DiffRecord[],
+  keys: string[]
+): SheetSnapshot {
+  const hashes: Record<string, string> = {};
+  const rows: Record<string, DiffRecord> = {};
+
+  for (const record of records) {
+    const key = keyOf(record, keys);
+    if (key in hashes) continue;
+    hashes[key] = rowHash(record, headers);
+    rows[key] = record;
+  }
+
+  return { keys, headers, hashes, rows };
+}
+
+/**
+ * Compara a versão atual com a anterior.
+ *
+ * @param previous Snapshot anterior (`rows` e/ou `hashes`).
+ * @param current Cabeçalho e registros atuais (ver `tableToRecords`).
+ * @param startColumn Índice (base-0) da primeira coluna lida, para os endereços A1.
+ * @throws Se alguma coluna-chave não existir no cabeçalho atual.
+ */
+export function diffRecords(
+  previous: Pick<SheetSnapshot, "hashes" | "rows"> & { headers?: string[] },
+  current: {
+    headers: string[];
+    records: { row: number; values: DiffRecord }[];
+  },
+  keys: string[],
+  startColumn: number = 0
+): SheetDiff {
+  const missing = keys.filter((k) => !current.headers.includes(k));
+  if (missing.length > 0) {
+    throw new Error(
+      `Coluna(s) chave não encontrada(s) no cabeçalho: ${missing.join(", ")}`
+    );
+  }
+
+  const headers = current.headers;
+  const previousHeaders =
+    previous.headers ??
+    Array.from(
+      new Set(Object.values(previous.rows ?? {}).flatMap(Object.keys))
+    );
+
+  // sem o cabeçalho anterior, compara só as colunas atuais
+  const columns = previous.headers
+    ? Array.from(new Set([...headers, ...previousHeaders]))
+    : headers;
+
+  const diff: SheetDiff = {
+    keys,
+    headers,
+    added: [],
+    removed: [],
+    modified: [],
+    unchanged: 0,
+    duplicateKeys: [],
+    addedColumns: previous.headers
+      ? headers.filter((h) => !previousHeaders.includes(h))
+      : [],
+    removedColumns: previous.headers
+      ? previousHeaders.filter((h) => !headers.includes(h))
+      : [],
+    snapshot: buildSnapshot(
+      headers,
+      current.records.map((r) => r.values),
+      keys
+    ),
+  };
+
+  // hashes anteriores: os informados ou calculados a partir das linhas
+  const previousHashes = new Map<string, string>(
+    Object.entries(previous.hashes ?? {})
+  );
+  for (const [key, record] of Object.entries(previous.rows ?? {})) {
+    if (!previousHashes.has(key)) {
+      previousHashes.set(key, rowHash(record, previousHeaders));
+    }
+  }
+
+  const seen = new Set<string>();
+  for (const { row, values } of current.records) {
+    const key = keyOf(values, keys);
+    if (seen.has(key)) {
+      if (!diff.duplicateKeys.includes(key)) diff.duplicateKeys.push(key);
+      continue;
+    }
+    seen.add(key);
+
+    if (!previousHashes.has(key)) {
+      diff.added.push({ key, row, values });
+      continue;
+    }
+
+    const before = previous.rows?.[key];
+    if (!before) {
+      // só hash: a linha mudou se o hash (no cabeçalho atual) for outro
+      if (previousHashes.get(key) === rowHash(values, headers)) {
+        diff.unchanged++;
+      } else {
+        diff.modified.push({ key, row, changes: null, values });
+      }
+      continue;
+    }
+
+    const changes: CellChange[] = [];
+    for (const column of columns) {
+      if (normalize(before[column]) === normalize(values[column])) continue;
+      const index = headers.indexOf(column);
+      changes.push({
+        column,
+        cell:
+          index >= 0
+            ? `${columnIndexToLetters(startColumn + index)}${row}`
+            : "",
+        before: before[column] ?? null,
+        after: values[column] ?? null,
+      });
+    }
+
+    if (changes.length === 0) {
+      diff.unchanged++;
+    } else {
+      diff.modified.push({ key, row, changes, values });
+    }
+  }
+
+  for (const key of previousHashes.keys()) {
+    if (!seen.has(key)) {
+      diff.removed.push({ key, values: previous.rows?.[key] ?? null });
+    }
+  }
+
+  return diff;
+}
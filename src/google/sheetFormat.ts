@@ -0,0 +1,413 @@
+/**
+ * Formatação declarativa de planilhas: converte uma `FormatSpec` nas
+ * requests do `spreadsheets.batchUpdate` (`repeatCell`, `updateBorders`,
+ * `updateSheetProperties`, `autoResizeDimensions`,
+ * `updateDimensionProperties` e `addConditionalFormatRule`).
+ *
+ * @example
+ * {
+ *   "freezeRows": 1,
+ *   "autoResize": true,
+ *   "ranges": [
+ *     { "range": "1:1", "bold": true, "background": "#1F4E78", "fontColor": "#FFFFFF" },
+ *     { "range": "C2:C", "numberFormat": "currency", "horizontalAlignment": "right" }
+ *   ],
+ *   "conditionalFormats": [
+ *     { "range": "C2:C", "type": "NUMBER_LESS", "values": [0], "fontColor": "#C00000" }
+ *   ]
+ * }
+ *
+ * @see https://developers.google.com/sheets/api/samples/formatting
+ */
+import { columnIndexToLetters, GridRange, resolveGridRange } from "./a1";
+
+/** `numberFormat` de `CellFormat` (ex.: { type: "DATE", pattern: "dd/mm/yyyy" }). */
+export type NumberFormat = {
+  type: "NUMBER" | "CURRENCY" | "PERCENT" | "DATE" | "DATE_TIME" | "TEXT";
+  pattern?: string;
+};
+
+/**
+ * Formatos numéricos usados nas planilhas (pt-BR), por nome:
+ * `currency` (R$), `number`, `integer`, `percent`, `date`, `datetime`, `text`.
+ */
+export const NUMBER_FORMATS: Record<string, NumberFormat> = {
+  currency: { type: "CURRENCY", pattern: '"R$" #,##0.00' },
+  number: { type: "NUMBER", pattern: "#,##0.00" },
+  integer: { type: "NUMBER", pattern: "#,##0" },
+  percent: { type: "PERCENT", pattern: "0.00%" },
+  date: { type: "DATE", pattern: "dd/mm/yyyy" },
+  datetime: { type: "DATE_TIME", pattern: "dd/mm/yyyy hh:mm:ss" },
+  text: { type: "TEXT" },
+};
+
+export type HorizontalAlignment = "LEFT" | "CENTER" | "RIGHT";
+export type VerticalAlignment = "TOP" | "MIDDLE" | "BOTTOM";
+export type BorderStyle =
+  | "SOLID"
+  | "SOLID_MEDIUM"
+  | "SOLID_THICK"
+  | "DASHED"
+  | "DOTTED"
+  | "DOUBLE";
+
+/** Estilo de texto e fundo, comum a ranges e formatação condicional. */
+export type TextStyle = {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+
+  // cores em hexadecimal: "#1F4E78" ou "#FFF"
+  fontColor?: string;
+  background?: string;
+};
+
+export type RangeFormat = TextStyle & {
+  range: string;
+  fontSize?: number;
+  fontFamily?: string;
+
+  // nome de `NUMBER_FORMATS` ("currency", "date"...) ou padrão ("#,##0.000")
+  numberFormat?: string | NumberFormat;
+
+  horizontalAlignment?: HorizontalAlignment | Lowercase<HorizontalAlignment>;
+  verticalAlignment?: VerticalAlignment | Lowercase<VerticalAlignment>;
+  wrap?: boolean;
+
+  // true: todas as bordas finas e pretas
+  borders?: boolean | { style?: BorderStyle; color?: string; inner?: boolean };
+};
+
+/**
+ * Regra condicional booleana: `type` é um `ConditionType` do Sheets
+ * (ex.: NUMBER_LESS, NUMBER_BETWEEN, TEXT_CONTAINS, BLANK) com `values`;
+ * ou `formula` (CUSTOM_FORMULA, ex.: "=$D2=\"atrasado\"").
+ */
+export type ConditionalFormat = TextStyle & {
+  range: string | string[];
+  type?: string;
+  values?: (string | number)[];
+  formula?: string;
+};
+
+export type FormatSpec = {
+  // aba dos ranges sem aba explícita (padrão: a primeira)
+  sheetName?: string;
+
+  freezeRows?: number;
+  freezeColumns?: number;
+
+  // true: todas as colunas da aba; ou colunas específicas ("A:D", "F")
+  autoResize?: boolean | string[];
+
+  // largura em pixels por coluna: { "A": 200, "B:D": 90 }
+  columnWidths?: Record<string, number>;
+
+  ranges?: RangeFormat[];
+  conditionalFormats?: ConditionalFormat[];
+};
+
+/** "#1F4E78" / "#FFF" -> { red, green, blue } (0 a 1). */
+export function parseColor(hex: string): {
+  red: number;
+  green: number;
+  blue: number;
+} {
+  let text = String(hex).trim().replace(/^#/, "");
+  if (/^[0-9a-f]{3}$/i.test(text)) {
+    text = text
+      .split("")
+      .map((c) => c + c)
+      .join("");
+  }
+  if (!/^[0-9a-f]{6}$/i.test(text)) {
+    throw new Error(
+      `Cor inválida: "${hex}". Use hexadecimal, ex.: "#1F4E78" ou "#FFF".`
+    );
+  }
+
+  const channel = (i: number) =>
+    Math.round((parseInt(text.slice(i, i + 2), 16) / 255) * 1000) / 1000;
+  return { red: channel(0), green: channel(2), blue: channel(4) };
+}
+
+function toNumberFormat(format: string | NumberFormat): NumberFormat {
+  if (typeof format !== "string") return format;
+  return (
+    NUMBER_FORMATS[format.toLowerCase()] ?? { type: "NUMBER", pattern: format }
+  );
+}
+
+/** `textFormat`/`backgroundColor` e a lista de campos alterados. */
+function styleToFormat(
+  style: TextStyle & { fontSize?: number; fontFamily?: string }
+): { format: Record<string, any>; fields: string[] } {
+  const textFormat: Record<string, unknown> = {};
+  const fields: string[] = [];
+
+  for (const key of ["bold", "italic", "underline", "strikethrough"] as const) {
+    if (style[key] !== undefined) {
+      textFormat[key] = style[key];
+      fields.push(`textFormat.${key}`);
+    }
+  }
+  if (style.fontSize !== undefined) {
+    textFormat.fontSize = style.fontSize;
+    fields.push("textFormat.fontSize");
+  }
+  if (style.fontFamily) {
+    textFormat.fontFamily = style.fontFamily;
+    fields.push("textFormat.fontFamily");
+  }
+  if (style.fontColor) {
+    textFormat.foregroundColor = parseColor(style.fontColor);
+    fields.push("textFormat.foregroundColor");
+  }
+
+  const format: Record<string, any> = {};
+  if (Object.keys(textFormat).length > 0) format.textFormat = textFormat;
+  if (style.background) {
+    format.backgroundColor = parseColor(style.background);
+    fields.push("backgroundColor");
+  }
+
+  return { format, fields };
+}
+
+function rangeRequests(range: GridRange, spec: RangeFormat): unknown[] {
+  const { format, fields } = styleToFormat(spec);
+
+  if (spec.numberFormat) {
+    format.numberFormat = toNumberFormat(spec.numberFormat);
+    fields.push("numberFormat");
+  }
+  if (spec.horizontalAlignment) {
+    format.horizontalAlignment = spec.horizontalAlignment.toUpperCase();
+    fields.push("horizontalAlignment");
+  }
+  if (spec.verticalAlignment) {
+    format.verticalAlignment = spec.verticalAlignment.toUpperCase();
+    fields.push("verticalAlignment");
+  }
+  if (spec.wrap !== undefined) {
+    format.wrapStrategy = spec.wrap ? "WRAP" : "OVERFLOW_CELL";
+    fields.push("wrapStrategy");
+  }
+
+  const requests: unknown[] = [];
+
+  // só os campos informados são alterados; o resto da formatação fica
+  if (fields.length > 0) {
+    requests.push({
+      repeatCell: {
+        range,
+        cell: { userEnteredFormat: format },
+        fields: fields.map((f) => `userEnteredFormat.${f}`).join(","),
+      },
+    });
+  }
+
+  if (spec.borders) {
+    const options = spec.borders === true ? {} : spec.borders;
+    const border = {
+      style: options.style ?? "SOLID",
+      color: parseColor(options.color ?? "#000000"),
+    };
+    requests.push({
+      updateBorders: {
+        range,
+        top: border,
+        bottom: border,
+        left: border,
+        right: border,
+        ...(options.inner !== false
+          ? { innerHorizontal: border, innerVertical: border }
+          : {}),
+      },
+    });
+  }
+
+  return requests;
+}
+
+function conditionalRequest(
+  ranges: GridRange[],
+  spec: ConditionalFormat
+): unknown {
+  let condition: Record<string, unknown>;
+  if (spec.formula) {
+    const formula = spec.formula.trim().startsWith("=")
+      ? spec.formula.trim()
+      : `=${spec.formula.trim()}`;
+    condition = {
+      type: "CUSTOM_FORMULA",
+      values: [{ userEnteredValue: formula }],
+    };
+  } else if (spec.type) {
+    condition = {
+      type: spec.type.toUpperCase(),
+      ...(spec.values?.length
+        ? {
+            values: spec.values.map((v) => ({ userEnteredValue: String(v) })),
+          }
+        : {}),
+    };
+  } else {
+    throw new Error(
+      "Formatação condicional exige type (ex.: NUMBER_LESS) ou formula."
+    );
+  }
+
+  const { format } = styleToFormat(spec);
+  if (Object.keys(format).length === 0) {
+    throw new Error(
+      "Formatação condicional sem estilo: informe bold, italic, fontColor ou background."
+    );
+  }
+
+  return {
+    addConditionalFormatRule: {
+      rule: { ranges, booleanRule: { condition, format } },
+      index: 0,
+    },
+  };
+}
+
+/** Colunas de um range ("A:D", "F", "Vendas!B2:C") como `DimensionRange`. */
+function columnDimension(
+  spreadsheet: any,
+  columns: string,
+  sheetName?: string
+): Record<string, unknown> {
+  const text = columns.trim();
+  const ref = /^[A-Za-z]+$/.test(text) ? `${text}:${text}` : text;
+  const range = resolveGridRange(spreadsheet, ref, { sheetName });
+  return {
+    sheetId: range.sheetId,
+    dimension: "COLUMNS",
+    ...(range.startColumnIndex !== undefined
+      ? { startIndex: range.startColumnIndex }
+      : {}),
+    ...(range.endColumnIndex !== undefined
+      ? { endIndex: range.endColumnIndex }
+      : {}),
+  };
+}
+
+/**
+ * Converte a `FormatSpec` em requests do `spreadsheets.batchUpdate`.
+ *
+ * @param spreadsheet Payload de `spreadsheets.get` com `sheets.properties`
+ *   e `namedRanges` (para resolver os ranges).
+ * @throws Se algum range, cor ou regra for inválido.
+ */
+export function buildFormatRequests(
+  spreadsheet: any,
+  spec: FormatSpec
+): unknown[] {
+  const { sheetName } = spec;
+  const resolve = (range: string) =>
+    resolveGridRange(spreadsheet, range, { sheetName });
+  const sheetId = resolve(sheetName ?? "A1").sheetId;
+
+  const requests: unknown[] = [];
+
+  const frozen: Record<string, number> = {};
+  if (spec.freezeRows !== undefined) frozen.frozenRowCount = spec.freezeRows;
+  if (spec.freezeColumns !== undefined) {
+    frozen.frozenColumnCount = spec.freezeColumns;
+  }
+  if (Object.keys(frozen).length > 0) {
+    requests.push({
+      updateSheetProperties: {
+        properties: { sheetId, gridProperties: frozen },
+        fields: Object.keys(frozen)
+          .map((k) => `gridProperties.${k}`)
+          .join(","),
+      },
+    });
+  }
+
+  for (const format of spec.ranges ?? []) {
+    if (!format?.range) throw new Error("Cada formatação exige range.");
+    requests.push(...rangeRequests(resolve(format.range), format));
+  }
+
+  for (const rule of spec.conditionalFormats ?? []) {
+    const ranges = (Array.isArray(rule?.range) ? rule.range : [rule?.range])
+      .filter(Boolean)
+      .map((r) => resolve(r as string));
+    if (ranges.length === 0) {
+      throw new Error("Cada formatação condicional exige range.");
+    }
+    requests.push(conditionalRequest(ranges, rule));
+  }
+
+  for (const [columns, width] of Object.entries(spec.columnWidths ?? {})) {
+    if (!Number.isInteger(width) || width <= 0) {
+      throw new Error(`Largura inválida para a coluna "${columns}": ${width}`);
+    }
+    requests.push({
+      updateDimensionProperties: {
+        range: columnDimension(spreadsheet, columns, sheetName),
+        properties: { pixelSize: width },
+        fields: "pixelSize",
+      },
+    });
+  }
+
+  // por último: o ajuste considera a fonte e o conteúdo já formatados
+  if (spec.autoResize === true) {
+    requests.push({
+      autoResizeDimensions: { dimensions: { sheetId, dimension: "COLUMNS" } },
+    });
+  } else if (Array.isArray(spec.autoResize)) {
+    for (const columns of spec.autoResize) {
+      requests.push({
+        autoResizeDimensions: {
+          dimensions: columnDimension(spreadsheet, columns, sheetName),
+        },
+      });
+    }
+  }
+
+  return requests;
+}
+
+/** Estilo padrão de cabeçalho: negrito, fundo azul escuro e texto branco. */
+export const DEFAULT_HEADER_STYLE: TextStyle = {
+  bold: true,
+  background: "#1F4E78",
+  fontColor: "#FFFFFF",
+};
+
+/**
+ * Formatação de cabeçalho para tabelas a partir de A1: estiliza a primeira
+ * linha (só as colunas da tabela), congela-a e ajusta a largura das colunas.
+ *
+ * @param columnCount Número de colunas do cabeçalho.
+ * @param style Sobrescreve campos de `DEFAULT_HEADER_STYLE`.
+ * @param freeze Congela a linha do cabeçalho (padrão: true).
+ */
+export function headerFormatSpec(
+  columnCount: number,
+  style: TextStyle = {},
+  sheetName?: string,
+  freeze: boolean = true
+): FormatSpec {
+  const lastColumn = columnIndexToLetters(Math.max(columnCount, 1) - 1);
+  return {
+    sheetName,
+    ...(freeze ? { freezeRows: 1 } : {}),
+    autoResize: true,
+    ranges: [
+      {
+        range: `A1:${lastColumn}1`,
+        ...DEFAULT_HEADER_STYLE,
+        ...style,
+        verticalAlignment: "MIDDLE",
+      },
+    ],
+  };
+}
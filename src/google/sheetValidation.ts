@@ -0,0 +1,237 @@
+/**
+ * Validação de dados e proteção de intervalos: converte regras declarativas
+ * em `DataValidationRule` (`setDataValidation`) e `ProtectedRange`
+ * (`addProtectedRange`).
+ *
+ * @see https://developers.google.com/sheets/api/samples/data#set_data_validation
+ * @see https://developers.google.com/sheets/api/samples/ranges#protect_a_range
+ */
+import { parseLocaleDate, parseLocaleNumber } from "../csv";
+import { GridRange } from "./a1";
+
+export type DataValidationType =
+  | "list"
+  | "range"
+  | "number"
+  | "date"
+  | "checkbox"
+  | "formula";
+
+/**
+ * Regra de validação:
+ * - `list`: lista suspensa com `values` (["Aberto", "Pago"])
+ * - `range`: lista suspensa com os valores de `source` ("Listas!A2:A")
+ * - `number`: número entre `min` e `max` (qualquer um é opcional)
+ * - `date`: data entre `min` e `max` (dd/mm/aaaa ou ISO)
+ * - `checkbox`: caixa de seleção; `values` opcional com [marcado, desmarcado]
+ * - `formula`: fórmula personalizada que precisa resultar em VERDADEIRO
+ */
+export type DataValidationSpec = {
+  type: DataValidationType;
+  values?: (string | number)[];
+  source?: string;
+  min?: number | string;
+  max?: number | string;
+  formula?: string;
+
+  // rejeita valores inválidos (padrão: true); false só exibe um aviso
+  strict?: boolean;
+
+  // texto de ajuda exibido ao selecionar a célula
+  message?: string;
+};
+
+export type ProtectionSpec = {
+  description?: string;
+
+  // emails que podem editar (o service account continua editor)
+  editors?: string[];
+
+  // só avisa ao editar, sem bloquear
+  warningOnly?: boolean;
+};
+
+/** Propriedades de um intervalo protegido (`sheets[].protectedRanges[]`). */
+export type ProtectedRange = {
+  protectedRangeId: number;
+  range?: GridRange;
+  namedRangeId?: string;
+  description?: string;
+  warningOnly?: boolean;
+  editors?: {
+    users?: string[];
+    groups?: string[];
+    domainUsersCanEdit?: boolean;
+  };
+};
+
+const VALIDATION_TYPES: DataValidationType[] = [
+  "list",
+  "range",
+  "number",
+  "date",
+  "checkbox",
+  "formula",
+];
+
+// limites como fórmula: "=1000.5" e "=DATE(2026,1,1)" são interpretados do
+// mesmo jeito em qualquer localidade da planilha ("1000.5" em pt-BR não é número)
+function toNumber(value: number | string, name: string): string {
+  const n = typeof value === "number" ? value : parseLocaleNumber(value);
+  if (n === null || !Number.isFinite(n)) {
+    throw new Error(`${name} deve ser um número: "${value}"`);
+  }
+  return `=${n}`;
+}
+
+function toDate(value: number | string, name: string): string {
+  const iso = parseLocaleDate(String(value));
+  if (!iso) {
+    throw new Error(`${name} deve ser uma data (dd/mm/aaaa): "${value}"`);
+  }
+  const [y, m, d] = iso.slice(0, 10).split("-").map(Number);
+  return `=DATE(${y},${m},${d})`;
+}
+
+/** Condição de intervalo: entre, a partir de ou até (min/max opcionais). */
+function boundsCondition(
+  spec: DataValidationSpec,
+  types: { between: string; min: string; max: string },
+  convert: (value: number | string, name: string) => string
+): Record<string, unknown> {
+  const hasMin = spec.min !== undefined && spec.min !== "";
+  const hasMax = spec.max !== undefined && spec.max !== "";
+  const value = (v: number | string, name: string) => ({
+    userEnteredValue: convert(v, name),
+  });
+
+  if (hasMin && hasMax) {
+    return {
+      type: types.between,
+      values: [value(spec.min!, "min"), value(spec.max!, "max")],
+    };
+  }
+  if (hasMin) return { type: types.min, values: [value(spec.min!, "min")] };
+  if (hasMax) return { type: types.max, values: [value(spec.max!, "max")] };
+  throw new Error(`A validação "${spec.type}" exige min e/ou max.`);
+}
+
+/**
+ * Converte a regra em `DataValidationRule` do Sheets.
+ *
+ * @throws Se o tipo for desconhecido ou faltarem valores obrigatórios.
+ */
+export function buildDataValidationRule(
+  spec: DataValidationSpec
+): Record<string, unknown> {
+  if (!VALIDATION_TYPES.includes(spec?.type)) {
+    throw new Error(`type inválido. Use: ${VALIDATION_TYPES.join(", ")}`);
+  }
+
+  let condition: Record<string, unknown>;
+  switch (spec.type) {
+    case "list": {
+      const values = (spec.values ?? [])
+        .map((v) => String(v).trim())
+        .filter(Boolean);
+      if (values.length === 0) {
+        throw new Error("A validação list exige values.");
+      }
+      condition = {
+        type: "ONE_OF_LIST",
+        values: values.map((v) => ({ userEnteredValue: v })),
+      };
+      break;
+    }
+    case "range": {
+      const source = spec.source?.trim();
+      if (!source) throw new Error("A validação range exige source.");
+      condition = {
+        type: "ONE_OF_RANGE",
+        values: [
+          { userEnteredValue: source.startsWith("=") ? source : `=${source}` },
+        ],
+      };
+      break;
+    }
+    case "number":
+      condition = boundsCondition(
+        spec,
+        {
+          between: "NUMBER_BETWEEN",
+          min: "NUMBER_GREATER_THAN_EQ",
+          max: "NUMBER_LESS_THAN_EQ",
+        },
+        toNumber
+      );
+      break;
+    case "date":
+      condition = boundsCondition(
+        spec,
+        {
+          between: "DATE_BETWEEN",
+          min: "DATE_ON_OR_AFTER",
+          max: "DATE_ON_OR_BEFORE",
+        },
+        toDate
+      );
+      break;
+    case "checkbox": {
+      const values = spec.values ?? [];
+      if (values.length !== 0 && values.length !== 2) {
+        throw new Error(
+          "A validação checkbox aceita values com [marcado, desmarcado]."
+        );
+      }
+      condition = {
+        type: "BOOLEAN",
+        ...(values.length === 2
+          ? { values: values.map((v) => ({ userEnteredValue: String(v) })) }
+          : {}),
+      };
+      break;
+    }
+    default: {
+      const formula = spec.formula?.trim();
+      if (!formula) throw new Error("A validação formula exige formula.");
+      condition = {
+        type: "CUSTOM_FORMULA",
+        values: [
+          {
+            userEnteredValue: formula.startsWith("=") ? formula : `=${formula}`,
+          },
+        ],
+      };
+    }
+  }
+
+  return {
+    condition,
+    strict: spec.strict !== false,
+    showCustomUi: spec.type === "list" || spec.type === "range",
+    ...(spec.message ? { inputMessage: spec.message } : {}),
+  };
+}
+
+/** `ProtectedRange` para o `addProtectedRange`. */
+export function buildProtectedRange(
+  range: GridRange,
+  spec: ProtectionSpec
+): Record<string, unknown> {
+  const editors = (spec.editors ?? [])
+    .map((e) => String(e).trim())
+    .filter(Boolean);
+
+  if (spec.warningOnly && editors.length > 0) {
+    throw new Error(
+      "warningOnly não pode ser combinado com editors: a proteção só com aviso não restringe editores."
+    );
+  }
+
+  return {
+    range,
+    ...(spec.description ? { description: spec.description } : {}),
+    warningOnly: spec.warningOnly === true,
+    ...(spec.warningOnly ? {} : { editors: { users: editors } }),
+  };
+}
@@ -1,23 +1,397 @@
-import { GoogleApi } from "./google";
+import { GoogleApi, Query } from "./google";
+import { parseLocaleDate, parseLocaleNumber } from "../csv";
+import {
+  buildDataValidationRule,
+  buildProtectedRange,
+  DataValidationSpec,
+  ProtectedRange,
+  ProtectionSpec,
+} from "./sheetValidation";
+import {
+  buildFormatRequests,
+  FormatSpec,
+  NUMBER_FORMATS,
+  NumberFormat,
+} from "./sheetFormat";
+import {
+  columnIndexToLetters,
+  GridRange,
+  gridRangeToA1,
+  quoteSheetName,
+  resolveGridRange,
+} from "./a1";
+
+export type ValueRenderOption =
+  | "FORMATTED_VALUE"
+  | "UNFORMATTED_VALUE"
+  | "FORMULA";
+
+export type DateTimeRenderOption = "SERIAL_NUMBER" | "FORMATTED_STRING";
+
+/** Valor de célula já convertido para tipo nativo (datas em ISO 8601). */
+export type CellValue = string | number | boolean | null;
 
 /**
- * Representa um range de uma célula (única) já convertido para o formato exigido
- * pelo `spreadsheets.batchUpdate` (índices base-0) e também preserva a notação A1.
- *
- * - `sheetId`: identificador numérico da aba alvo
- * - `startRowIndex/endRowIndex`: intervalo de linhas (end é exclusivo)
- * - `startColumnIndex/endColumnIndex`: intervalo de colunas (end é exclusivo)
- * - `a1`: range original normalizado (ex.: "Sheet1!B2" ou "A1")
+ * Tipo da célula gravada por `updateById`:
+ * - `auto`: infere pelo valor (fórmula "=...", booleano, data, número, texto)
+ * - `number`: "1.234,56", "R$ 1.500,00", "12,5%" ou número nativo
+ * - `bool`: true/false, verdadeiro/falso, sim/não, 1/0
+ * - `formula`: texto com ou sem "=" inicial
+ * - `date`: dd/mm/aaaa [hh:mm[:ss]] ou ISO (aaaa-mm-dd)
+ * - `string`: texto literal (ex.: CEP "01310-100", código "00123")
  */
-type A1Target = {
+export type CellType =
+  | "auto"
+  | "string"
+  | "number"
+  | "bool"
+  | "formula"
+  | "date";
+
+/** Célula pronta para o `updateCells`: valor e, se aplicável, o formato numérico. */
+export type CellData = {
+  userEnteredValue: Record<string, unknown>;
+  numberFormat?: NumberFormat;
+};
+
+/** Propriedades de uma aba (`sheets[].properties`). */
+export type SheetProperties = {
   sheetId: number;
-  startRowIndex: number;
-  endRowIndex: number;
-  startColumnIndex: number;
-  endColumnIndex: number;
-  a1: string;
+  title: string;
+  index: number;
+  hidden?: boolean;
+  gridProperties?: {
+    rowCount?: number;
+    columnCount?: number;
+    frozenRowCount?: number;
+    frozenColumnCount?: number;
+  };
 };
 
+/**
+ * Converte um número serial do Sheets (dias desde 30/12/1899) em ISO 8601,
+ * conforme o tipo do formato da célula:
+ * - DATE -> "2026-03-15"
+ * - DATE_TIME -> "2026-03-15T14:30:00"
+ * - TIME -> "14:30:00"
+ *
+ * O serial não tem fuso: representa o horário no fuso da planilha.
+ */
+export function serialToIso(
+  serial: number,
+  type: "DATE" | "DATE_TIME" | "TIME"
+): string {
+  const ms = Math.round((serial - 25569) * 86400000);
+  const iso = new Date(ms).toISOString();
+  if (type === "DATE") return iso.slice(0, 10);
+  if (type === "TIME") return iso.slice(11, 19);
+  return iso.slice(0, 19);
+}
+
+/**
+ * Inverso de `serialToIso`: "2026-10-19" ou "2026-10-19 14:30:00" -> serial.
+ */
+export function isoToSerial(iso: string): number {
+  const [date, time = "00:00:00"] = iso.split(/[T ]/);
+  const ms = Date.parse(`${date}T${time}Z`);
+  if (Number.isNaN(ms)) throw new Error(`Data inválida: "${iso}"`);
+  return ms / 86400000 + 25569;
+}
+
+/**
+ * Converte uma célula de `rowData.values[]` (grid data) em valor nativo:
+ * números, booleanos, datas (ISO) e texto. Erros de fórmula retornam o
+ * texto exibido (ex.: "#REF!"); células vazias, `null`.
+ */
+function cellToValue(cell: any): CellValue {
+  const value = cell?.effectiveValue;
+  if (!value) return null;
+
+  if (typeof value.boolValue === "boolean") return value.boolValue;
+  if (typeof value.stringValue === "string") return value.stringValue;
+  if (value.errorValue) return cell.formattedValue ?? null;
+
+  if (typeof value.numberValue === "number") {
+    const type = cell?.effectiveFormat?.numberFormat?.type;
+    if (type === "DATE" || type === "DATE_TIME" || type === "TIME") {
+      return serialToIso(value.numberValue, type);
+    }
+    return value.numberValue;
+  }
+
+  return null;
+}
+
+/**
+ * Usa a primeira linha como cabeçalho e converte as demais em objetos
+ * `{ coluna: valor }`.
+ *
+ * - Cabeçalhos vazios viram a letra da coluna (ex.: "C").
+ * - Cabeçalhos repetidos recebem sufixo ("valor", "valor_2").
+ * - Linhas totalmente vazias são ignoradas.
+ *
+ * @param firstColumn Índice base-0 da primeira coluna do range (para nomear
+ *   cabeçalhos vazios).
+ */
+export function rowsToObjects<T = unknown>(
+  rows: T[][],
+  firstColumn = 0
+): { headers: string[]; rows: Record<string, T | null>[] } {
+  const [headerRow = [], ...body] = rows;
+  const width = Math.max(headerRow.length, ...body.map((r) => r.length));
+
+  const seen = new Map<string, number>();
+  const headers = Array.from({ length: width }, (_, i) => {
+    const raw = headerRow[i];
+    let name =
+      raw === null || raw === undefined || String(raw).trim() === ""
+        ? columnIndexToLetters(firstColumn + i)
+        : String(raw).trim();
+
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    if (count > 1) name = `${name}_${count}`;
+    return name;
+  });
+
+  const objects = body
+    .filter((row) => row.some((v) => v !== null && v !== undefined && v !== ""))
+    .map((row) => {
+      const obj: Record<string, T | null> = {};
+      headers.forEach((h, i) => {
+        const v = row[i];
+        obj[h] = v === undefined || v === "" ? null : v;
+      });
+      return obj;
+    });
+
+  return { headers, rows: objects };
+}
+
+/**
+ * Converte objetos em linhas seguindo a ordem de `headers`.
+ * Chaves ausentes viram "" (células vazias).
+ */
+export function objectsToRows(
+  headers: string[],
+  records: Record<string, unknown>[]
+): (string | number | boolean)[][] {
+  return records.map((record) => headers.map((h) => toWritable(record[h])));
+}
+
+const TRUE_WORDS = ["true", "verdadeiro", "sim", "s", "1", "yes"];
+const FALSE_WORDS = ["false", "falso", "não", "nao", "n", "0", "no"];
+
+/**
+ * Casas decimais escritas no texto ("1.500,00" -> 2, "1.234" -> 0,
+ * "0,500" -> 3), a partir dos dígitos: o menor `k` tal que `n * 10^k`
+ * reproduz todos os dígitos.
+ */
+function decimalPlaces(text: string, n: number): number {
+  const digits = Number(text.replace(/\D/g, ""));
+  for (let k = 0; k <= 10; k++) {
+    if (Math.round(Math.abs(n) * 10 ** k) === digits) return k;
+  }
+  return 0;
+}
+
+function numberFromText(text: string): CellData | null {
+  const trimmed = text.trim();
+
+  const percent = /^(.*\d)\s*%$/.exec(trimmed);
+  if (percent) {
+    const n = parseLocaleNumber(percent[1]);
+    if (n === null) return null;
+    const places = decimalPlaces(percent[1], n);
+    return {
+      userEnteredValue: { numberValue: n / 100 },
+      numberFormat: {
+        type: "PERCENT",
+        pattern: places > 0 ? `0.${"0".repeat(places)}%` : "0%",
+      },
+    };
+  }
+
+  const n = parseLocaleNumber(trimmed);
+  if (n === null) return null;
+
+  if (/^R\$/i.test(trimmed)) {
+    return {
+      userEnteredValue: { numberValue: n },
+      numberFormat: NUMBER_FORMATS.currency,
+    };
+  }
+
+  const places = decimalPlaces(trimmed, n);
+  const pattern = places > 0 ? `#,##0.${"0".repeat(places)}` : undefined;
+  return {
+    userEnteredValue: { numberValue: n },
+    ...(pattern ? { numberFormat: { type: "NUMBER", pattern } } : {}),
+  };
+}
+
+function dateFromText(text: string): CellData | null {
+  const iso = parseLocaleDate(text);
+  if (!iso) return null;
+  const hasTime = iso.includes(" ");
+  return {
+    userEnteredValue: { numberValue: isoToSerial(iso) },
+    numberFormat: hasTime ? NUMBER_FORMATS.datetime : NUMBER_FORMATS.date,
+  };
+}
+
+/**
+ * Converte um valor em célula do `updateCells` conforme o tipo (ver
+ * `CellType`). `null`/"" limpam a célula.
+ *
+ * Em `auto`, textos com zero à esquerda ("00123") continuam texto e só
+ * true/false/verdadeiro/falso viram booleano. Decimais com parte inteira 0
+ * mantêm as casas escritas ("0,500" -> 0.5 com formato `#,##0.000`).
+ *
+ * @throws Se o valor não puder ser convertido no tipo explícito.
+ */
+export function toCellData(
+  value: CellValue | undefined,
+  type: CellType = "auto"
+): CellData {
+  if (value === null || value === undefined || value === "") {
+    return { userEnteredValue: {} };
+  }
+
+  const text = String(value);
+  const invalid = () =>
+    new Error(`Valor "${text}" não pode ser gravado como ${type}`);
+
+  switch (type) {
+    case "string":
+      return { userEnteredValue: { stringValue: text } };
+
+    case "formula":
+      return {
+        userEnteredValue: {
+          formulaValue: text.trim().startsWith("=") ? text.trim() : `=${text}`,
+        },
+      };
+
+    case "number": {
+      if (typeof value === "number") {
+        return { userEnteredValue: { numberValue: value } };
+      }
+      const cell = typeof value === "string" ? numberFromText(value) : null;
+      if (!cell) throw invalid();
+      return cell;
+    }
+
+    case "bool": {
+      if (typeof value === "boolean") {
+        return { userEnteredValue: { boolValue: value } };
+      }
+      const word = text.trim().toLowerCase();
+      if (TRUE_WORDS.includes(word)) {
+        return { userEnteredValue: { boolValue: true } };
+      }
+      if (FALSE_WORDS.includes(word)) {
+        return { userEnteredValue: { boolValue: false } };
+      }
+      throw invalid();
+    }
+
+    case "date": {
+      if (typeof value === "number") {
+        return {
+          userEnteredValue: { numberValue: value },
+          numberFormat: NUMBER_FORMATS.date,
+        };
+      }
+      const cell = dateFromText(text);
+      if (!cell) throw invalid();
+      return cell;
+    }
+
+    default: {
+      if (typeof value === "number") {
+        return { userEnteredValue: { numberValue: value } };
+      }
+      if (typeof value === "boolean") {
+        return { userEnteredValue: { boolValue: value } };
+      }
+
+      const trimmed = text.trim();
+      if (trimmed.startsWith("=") && trimmed.length > 1) {
+        return { userEnteredValue: { formulaValue: trimmed } };
+      }
+      if (/^(true|false|verdadeiro|falso)$/i.test(trimmed)) {
+        return {
+          userEnteredValue: {
+            boolValue: /^(true|verdadeiro)$/i.test(trimmed),
+          },
+        };
+      }
+      if (/^0\d/.test(trimmed)) {
+        return { userEnteredValue: { stringValue: text } };
+      }
+      return (
+        dateFromText(trimmed) ??
+        numberFromText(trimmed) ?? { userEnteredValue: { stringValue: text } }
+      );
+    }
+  }
+}
+
+/**
+ * Forma canônica de um valor de chave do upsert, igual para o que a planilha
+ * retorna (números, datas como número de série, texto sem o apóstrofo) e para
+ * o que será gravado ("'0042", "19/10/2026", "2026-10-19", "1,5"):
+ * - apóstrofo inicial é descartado
+ * - texto com zero à esquerda ("0042") continua texto
+ * - datas viram o número de série e números o valor numérico
+ */
+function keyValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value !== "string") return String(value);
+
+  const text = value.trim().replace(/^'/, "");
+  if (/^0\d/.test(text)) return text;
+
+  const iso = parseLocaleDate(text);
+  if (iso) return String(isoToSerial(iso));
+  const n = parseLocaleNumber(text);
+  return n === null ? text : String(n);
+}
+
+/**
+ * Converte um `GridData` em linhas x colunas tipadas (ver `cellToValue`),
+ * sem células vazias no fim das linhas nem linhas vazias no final.
+ */
+function gridDataToValues(data: any = {}): {
+  values: CellValue[][];
+  startRow: number;
+  startColumn: number;
+} {
+  const values: CellValue[][] = (data.rowData ?? []).map((row: any) => {
+    const cells: CellValue[] = (row?.values ?? []).map(cellToValue);
+    while (cells.length > 0 && cells[cells.length - 1] === null) cells.pop();
+    return cells;
+  });
+  while (values.length > 0 && values[values.length - 1].length === 0) {
+    values.pop();
+  }
+
+  return {
+    values,
+    startRow: data.startRow ?? 0,
+    startColumn: data.startColumn ?? 0,
+  };
+}
+
+function toWritable(value: unknown): string | number | boolean {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number" || typeof value === "boolean") return value;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
 /**
  * Cliente especializado para operações no Google Sheets.
  *
@@ -28,12 +402,17 @@ type A1Target = {
  *
  * Responsabilidade:
  * - encapsular endpoints da API do Google Sheets
- * - fornecer utilitários para lidar com ranges A1 (ex.: "A1", "AA10", "Aba!B2")
+ * - resolver ranges A1/R1C1 e intervalos nomeados em `GridRange` (ver `./a1`)
  *
  * Principais operações:
  * - `getById`: obtém metadados/estrutura de uma planilha
- * - `updateById`: atualiza o valor de UMA célula usando batchUpdate (ex.: "B2")
+ * - `updateById`: grava uma célula ou matriz tipada usando batchUpdate (ex.: "B2")
  * - `valuesUpdate`: atualiza valores tabulares (matriz) em um range A1 via values.update
+ * - `getValues` / `getTypedValues`: lê valores de um range (brutos ou tipados)
+ * - `valuesBatchGet` / `valuesBatchUpdate`: lê/grava vários ranges em uma chamada
+ * - `addSheet` / `duplicateSheet` / `updateSheetProperties` / `deleteSheet`: gerenciam abas
+ * - `format`: formatação declarativa (estilos, bordas, congelamento, colunas, condicional)
+ * - `setDataValidation` / `addProtectedRange`: restringem a entrada de dados
  */
 export class GoogleSheetsApi {
   private readonly google: GoogleApi;
@@ -56,74 +435,439 @@ export class GoogleSheetsApi {
    *
    * @see https://developers.google.com/sheets/api/reference/rest/v4/spreadsheets/get
    */
-  async getById(spreadsheetId: string): Promise<any> {
+  async getById(spreadsheetId: string, fields?: string): Promise<any> {
     return this.google.get(
       "https://sheets.googleapis.com",
-      `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}`
+      `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}`,
+      fields ? { fields } : {}
+    );
+  }
+
+  /**
+   * Lista as propriedades das abas (título, sheetId, dimensões), sem os dados.
+   */
+  async getSheets(spreadsheetId: string): Promise<SheetProperties[]> {
+    const spreadsheet = await this.getById(
+      spreadsheetId,
+      "sheets.properties(sheetId,title,index,hidden,gridProperties)"
+    );
+    return (spreadsheet?.sheets ?? []).map((s: any) => s.properties);
+  }
+
+  /**
+   * Propriedades de uma aba pelo título.
+   *
+   * @param sheetName Título da aba (padrão: a primeira aba).
+   * @throws Se a aba não existir (a mensagem lista as abas disponíveis).
+   */
+  async findSheet(
+    spreadsheetId: string,
+    sheetName?: string
+  ): Promise<SheetProperties> {
+    const sheets = await this.getSheets(spreadsheetId);
+    const sheet = sheetName
+      ? sheets.find((s) => s.title === sheetName)
+      : sheets[0];
+
+    if (!sheet) {
+      throw new Error(
+        sheetName
+          ? `Aba "${sheetName}" não encontrada. Abas disponíveis: ${sheets
+              .map((s) => s.title)
+              .join(", ")}`
+          : "Planilha não possui abas (sheets)."
+      );
+    }
+
+    return sheet;
+  }
+
+  /**
+   * Range A1 cobrindo a grade inteira da aba (ex.: "'Vendas'!A1:AF5000"),
+   * a partir de `gridProperties.rowCount/columnCount`.
+   *
+   * @param sheetName Título da aba (padrão: a primeira aba).
+   */
+  async getFullRange(
+    spreadsheetId: string,
+    sheetName?: string
+  ): Promise<{ range: string; sheet: SheetProperties }> {
+    const sheet = await this.findSheet(spreadsheetId, sheetName);
+
+    const rows = sheet.gridProperties?.rowCount ?? 1000;
+    const columns = sheet.gridProperties?.columnCount ?? 26;
+
+    return {
+      range: gridRangeToA1(
+        {
+          startRowIndex: 0,
+          endRowIndex: Math.max(rows, 1),
+          startColumnIndex: 0,
+          endColumnIndex: Math.max(columns, 1),
+        },
+        sheet.title
+      ),
+      sheet,
+    };
+  }
+
+  /**
+   * POST /v4/spreadsheets/{spreadsheetId}:batchUpdate
+   *
+   * Aplica as `requests` em ordem, atomicamente (ou todas ou nenhuma).
+   * `replies` vem na mesma ordem das requests.
+   *
+   * @see https://developers.google.com/sheets/api/reference/rest/v4/spreadsheets/batchUpdate
+   */
+  async batchUpdate(
+    spreadsheetId: string,
+    requests: unknown[]
+  ): Promise<{ spreadsheetId: string; replies?: any[] }> {
+    return this.google.post(
+      "https://sheets.googleapis.com",
+      `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}:batchUpdate`,
+      { requests }
     );
   }
 
   /**
-   * Atualiza o conteúdo de UMA célula específica da planilha.
+   * Cria uma aba (`addSheet`).
    *
-   * Implementação via `spreadsheets.batchUpdate` com `updateCells`, que trabalha com:
-   * - `sheetId` (aba alvo)
-   * - índices de linha/coluna base-0 (end exclusivo)
+   * @param options.index Posição (0 = primeira; padrão: última).
+   * @param options.rowCount/columnCount Dimensões da grade (padrão do Sheets: 1000 x 26).
+   */
+  async addSheet(
+    spreadsheetId: string,
+    title: string,
+    options: { index?: number; rowCount?: number; columnCount?: number } = {}
+  ): Promise<SheetProperties> {
+    const properties: Record<string, unknown> = { title };
+    if (options.index !== undefined) properties.index = options.index;
+    if (options.rowCount || options.columnCount) {
+      properties.gridProperties = {
+        ...(options.rowCount ? { rowCount: options.rowCount } : {}),
+        ...(options.columnCount ? { columnCount: options.columnCount } : {}),
+      };
+    }
+
+    const response = await this.batchUpdate(spreadsheetId, [
+      { addSheet: { properties } },
+    ]);
+    return response.replies?.[0]?.addSheet?.properties;
+  }
+
+  /**
+   * Duplica uma aba com valores, fórmulas e formatação (`duplicateSheet`).
+   *
+   * @param newTitle Título da cópia (padrão do Sheets: "Cópia de ...").
+   * @param index Posição da cópia (padrão: logo após a original).
+   */
+  async duplicateSheet(
+    spreadsheetId: string,
+    sheetId: number,
+    newTitle?: string,
+    index?: number
+  ): Promise<SheetProperties> {
+    const response = await this.batchUpdate(spreadsheetId, [
+      {
+        duplicateSheet: {
+          sourceSheetId: sheetId,
+          ...(newTitle ? { newSheetName: newTitle } : {}),
+          ...(index !== undefined ? { insertSheetIndex: index } : {}),
+        },
+      },
+    ]);
+    return response.replies?.[0]?.duplicateSheet?.properties;
+  }
+
+  /**
+   * Altera propriedades de uma aba (`updateSheetProperties`): título,
+   * posição e visibilidade. Só os campos informados são alterados.
+   */
+  async updateSheetProperties(
+    spreadsheetId: string,
+    sheetId: number,
+    properties: { title?: string; index?: number; hidden?: boolean }
+  ): Promise<any> {
+    const fields = Object.keys(properties).filter(
+      (k) => (properties as Record<string, unknown>)[k] !== undefined
+    );
+    if (fields.length === 0) {
+      throw new Error("Nenhuma propriedade da aba informada para alterar.");
+    }
+
+    return this.batchUpdate(spreadsheetId, [
+      {
+        updateSheetProperties: {
+          properties: { sheetId, ...properties },
+          fields: fields.join(","),
+        },
+      },
+    ]);
+  }
+
+  /** Exclui uma aba (`deleteSheet`). A planilha precisa manter ao menos uma aba. */
+  async deleteSheet(spreadsheetId: string, sheetId: number): Promise<any> {
+    return this.batchUpdate(spreadsheetId, [{ deleteSheet: { sheetId } }]);
+  }
+
+  /**
+   * POST /v4/spreadsheets/{spreadsheetId}/values/{range}:clear
    *
-   * O parâmetro `range` aceita:
-   * - "A1", "B2", "AA10" (célula única)
-   * - "Sheet1!B2" (aba explícita)
-   * - "'Minha Aba'!C3" (aba com espaços, usando aspas simples)
+   * Apaga os valores do range (ou da aba inteira, informando só o nome),
+   * mantendo formatação e validação.
+   *
+   * @see https://developers.google.com/sheets/api/reference/rest/v4/spreadsheets.values/clear
+   */
+  async valuesClear(spreadsheetId: string, rangeA1: string): Promise<any> {
+    return this.google.post(
+      "https://sheets.googleapis.com",
+      `/v4/spreadsheets/${encodeURIComponent(
+        spreadsheetId
+      )}/values/${encodeURIComponent(rangeA1)}:clear`,
+      {}
+    );
+  }
+
+  /**
+   * Aplica uma formatação declarativa (estilo de ranges, bordas, linhas
+   * congeladas, largura de colunas e formatação condicional) em um único
+   * `batchUpdate`. Ver `FormatSpec`.
+   *
+   * @returns Resposta do batchUpdate e o número de requests aplicadas.
+   */
+  async format(
+    spreadsheetId: string,
+    spec: FormatSpec
+  ): Promise<{ requests: number; response: any }> {
+    const spreadsheet = await this.getById(
+      spreadsheetId,
+      "sheets.properties(sheetId,title),namedRanges(name,range)"
+    );
+
+    const requests = buildFormatRequests(spreadsheet, spec);
+    if (requests.length === 0) {
+      throw new Error("Nenhuma formatação informada.");
+    }
+
+    const response = await this.batchUpdate(spreadsheetId, requests);
+    return { requests: requests.length, response };
+  }
+
+  /**
+   * Define (ou remove, com `spec` nulo) a validação de dados de um range
+   * (`setDataValidation`): lista suspensa, número/data entre limites,
+   * caixa de seleção ou fórmula. Ver `DataValidationSpec`.
+   */
+  async setDataValidation(
+    spreadsheetId: string,
+    range: string,
+    spec: DataValidationSpec | null,
+    sheetName?: string
+  ): Promise<any> {
+    // valida a regra antes de qualquer chamada
+    const rule = spec ? buildDataValidationRule(spec) : null;
+    const target = await this.resolveRange(spreadsheetId, range, sheetName);
+
+    return this.batchUpdate(spreadsheetId, [
+      { setDataValidation: { range: target, ...(rule ? { rule } : {}) } },
+    ]);
+  }
+
+  /**
+   * Protege um range ou uma aba inteira (`addProtectedRange`), permitindo a
+   * edição apenas por `editors` (ou só avisando, com `warningOnly`).
+   *
+   * @returns O intervalo protegido criado (com `protectedRangeId`).
+   */
+  async addProtectedRange(
+    spreadsheetId: string,
+    range: string,
+    spec: ProtectionSpec,
+    sheetName?: string
+  ): Promise<ProtectedRange> {
+    const target = await this.resolveRange(spreadsheetId, range, sheetName);
+    const protectedRange = buildProtectedRange(target, spec);
+
+    const response = await this.batchUpdate(spreadsheetId, [
+      { addProtectedRange: { protectedRange } },
+    ]);
+    return response.replies?.[0]?.addProtectedRange?.protectedRange;
+  }
+
+  /** Intervalos protegidos de todas as abas, com o título da aba. */
+  async listProtectedRanges(
+    spreadsheetId: string
+  ): Promise<(ProtectedRange & { sheetTitle: string })[]> {
+    const spreadsheet = await this.getById(
+      spreadsheetId,
+      "sheets(properties(sheetId,title),protectedRanges)"
+    );
+
+    return (spreadsheet?.sheets ?? []).flatMap((sheet: any) =>
+      (sheet.protectedRanges ?? []).map((p: ProtectedRange) => ({
+        ...p,
+        sheetTitle: sheet.properties?.title,
+      }))
+    );
+  }
+
+  /** Remove a proteção (`deleteProtectedRange`); os dados não são alterados. */
+  async deleteProtectedRange(
+    spreadsheetId: string,
+    protectedRangeId: number
+  ): Promise<any> {
+    return this.batchUpdate(spreadsheetId, [
+      { deleteProtectedRange: { protectedRangeId } },
+    ]);
+  }
+
+  /**
+   * Resolve uma referência (A1, R1C1, nome de aba ou intervalo nomeado) em
+   * `GridRange`, para requests do `spreadsheets.batchUpdate` (updateCells,
+   * formatação, validação...).
+   *
+   * @param sheetName Aba de referências sem aba (padrão: a primeira).
+   *
+   * @see resolveGridRange
+   */
+  async resolveRange(
+    spreadsheetId: string,
+    range: string,
+    sheetName?: string
+  ): Promise<GridRange> {
+    const spreadsheet = await this.getById(
+      spreadsheetId,
+      "sheets.properties(sheetId,title),namedRanges(name,range)"
+    );
+    return resolveGridRange(spreadsheet, range, { sheetName });
+  }
+
+  /**
+   * Grava uma célula ou uma matriz a partir do canto superior esquerdo de `range`.
+   *
+   * Implementação via `spreadsheets.batchUpdate` com `updateCells` (`start` +
+   * `rows`): só as células da matriz são alteradas.
+   *
+   * O parâmetro `range` aceita qualquer referência de `resolveRange`:
+   * - "A1", "B2:D10", "A:A", "2:2", "A2:C"
+   * - "Sheet1!B2", "'O''Brien'!C3" (aba com aspas escapadas)
+   * - intervalo nomeado ("TotalVendas")
    *
    * Regras:
    * - Se nenhuma aba for informada, usa a PRIMEIRA aba do spreadsheet.
-   * - `data` é escrito como `stringValue`. (Se quiser number/bool, ajuste userEnteredValue.)
+   * - Cada valor é convertido por `toCellData` conforme `types` (padrão:
+   *   `auto`): "=SOMA(A1:A9)" vira fórmula, "1.500,00" vira número, e
+   *   "19/10/2026" vira data. `null`/"" limpam a célula.
+   * - Datas, percentuais, moeda e números com casas decimais também
+   *   recebem `numberFormat`; nas demais células o formato atual é mantido.
+   * - Se `range` for um intervalo com fim definido, a matriz precisa caber nele.
    *
    * @param spreadsheetId ID da planilha (Google Sheets).
-   * @param data Texto a ser gravado na célula alvo.
+   * @param data Texto de uma célula ou matriz (linhas x colunas).
    * @param range Range no formato A1 (padrão: "A1").
+   * @param types Tipo de todas as células ou um tipo por coluna da matriz.
    * @returns Resposta do batchUpdate do Sheets API.
    *
+   * @example
+   * await sheets.updateById(id, [["Total", "=SOMA(B2:B9)", "1.234,56"]], "Resumo!A10");
+   *
    * @see https://developers.google.com/sheets/api/reference/rest/v4/spreadsheets/batchUpdate
    */
   async updateById(
     spreadsheetId: string,
-    data: string,
-    range: string = "A1"
+    data: string | CellValue[][],
+    range: string = "A1",
+    types: CellType | CellType[] = "auto"
   ): Promise<any> {
-    const spreadsheet = await this.getById(spreadsheetId);
+    const matrix = typeof data === "string" ? [[data]] : data;
+
+    // converte antes de qualquer chamada: valores inválidos falham cedo
+    const cells = matrix.map((row) =>
+      row.map((value, col) =>
+        toCellData(value, Array.isArray(types) ? types[col] ?? "auto" : types)
+      )
+    );
+
+    const target = await this.resolveRange(spreadsheetId, range);
 
-    const target = this.resolveA1Target(spreadsheet, range);
+    const height = matrix.length;
+    const width = Math.max(0, ...matrix.map((r) => r.length));
+    const startRow = target.startRowIndex ?? 0;
+    const startColumn = target.startColumnIndex ?? 0;
 
-    const requests = [
+    // célula única é só o ponto de partida; um intervalo limita a matriz
+    const isCell =
+      target.endRowIndex === startRow + 1 &&
+      target.endColumnIndex === startColumn + 1;
+
+    if (
+      !isCell &&
+      ((target.endRowIndex !== undefined &&
+        startRow + height > target.endRowIndex) ||
+        (target.endColumnIndex !== undefined &&
+          startColumn + width > target.endColumnIndex))
+    ) {
+      throw new Error(
+        `Os dados (${height}x${width}) não cabem no range "${range}".`
+      );
+    }
+
+    const requests: any[] = [
       {
         updateCells: {
-          range: {
+          start: {
             sheetId: target.sheetId,
-            startRowIndex: target.startRowIndex,
-            endRowIndex: target.endRowIndex,
-            startColumnIndex: target.startColumnIndex,
-            endColumnIndex: target.endColumnIndex,
+            rowIndex: startRow,
+            columnIndex: startColumn,
           },
-          rows: [
-            {
-              values: [
-                {
-                  userEnteredValue: { stringValue: data },
-                },
-              ],
-            },
-          ],
+          rows: cells.map((row) => ({
+            values: row.map((cell) => ({
+              userEnteredValue: cell.userEnteredValue,
+            })),
+          })),
           fields: "userEnteredValue",
         },
       },
     ];
 
-    return this.google.post(
-      "https://sheets.googleapis.com",
-      `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}:batchUpdate`,
-      { requests }
-    );
+    // formato só onde houver: um repeatCell por trecho contínuo da linha
+    // com o mesmo formato, para não apagar o formato das demais células
+    cells.forEach((row, r) => {
+      let c = 0;
+      while (c < row.length) {
+        const format = row[c].numberFormat;
+        if (!format) {
+          c++;
+          continue;
+        }
+        const key = JSON.stringify(format);
+        let end = c + 1;
+        while (
+          end < row.length &&
+          JSON.stringify(row[end].numberFormat) === key
+        ) {
+          end++;
+        }
+
+        requests.push({
+          repeatCell: {
+            range: {
+              sheetId: target.sheetId,
+              startRowIndex: startRow + r,
+              endRowIndex: startRow + r + 1,
+              startColumnIndex: startColumn + c,
+              endColumnIndex: startColumn + end,
+            },
+            cell: { userEnteredFormat: { numberFormat: format } },
+            fields: "userEnteredFormat.numberFormat",
+          },
+        });
+        c = end;
+      }
+    });
+
+    return this.batchUpdate(spreadsheetId, requests);
   }
 
   /**
@@ -168,128 +912,311 @@ export class GoogleSheetsApi {
   }
 
   /**
-   * GET /v4/spreadsheets/{spreadsheetId}/values/{range}
-   * Retorna os valores (conteúdo) de um range em notação A1.
+   * POST /v4/spreadsheets/{spreadsheetId}/values/{range}:append
+   *
+   * Acrescenta linhas após a última linha da tabela encontrada em `rangeA1`
+   * (ex.: "'Log'!A1"), inserindo novas linhas na grade (`INSERT_ROWS`) em vez
+   * de sobrescrever o que estiver abaixo.
+   *
+   * @see https://developers.google.com/sheets/api/reference/rest/v4/spreadsheets.values/append
    */
-  async getValues(
+  async valuesAppend(
     spreadsheetId: string,
-    rangeA1: string = "A1:Z1000",
-    params?: {
-      valueRenderOption?: "FORMATTED_VALUE" | "UNFORMATTED_VALUE" | "FORMULA";
-      dateTimeRenderOption?: "SERIAL_NUMBER" | "FORMATTED_STRING";
-    }
+    rangeA1: string,
+    values: (string | number | boolean)[][]
   ): Promise<any> {
-    const query: Record<string, string> = {};
-    if (params?.valueRenderOption)
-      query.valueRenderOption = params.valueRenderOption;
-    if (params?.dateTimeRenderOption)
-      query.dateTimeRenderOption = params.dateTimeRenderOption;
+    return this.google.post(
+      "https://sheets.googleapis.com",
+      `/v4/spreadsheets/${encodeURIComponent(
+        spreadsheetId
+      )}/values/${encodeURIComponent(rangeA1)}:append`,
+      { values, majorDimension: "ROWS" },
+      { valueInputOption: "USER_ENTERED", insertDataOption: "INSERT_ROWS" }
+    );
+  }
 
-    return this.google.get(
+  /**
+   * POST /v4/spreadsheets/{spreadsheetId}/values:batchUpdate
+   *
+   * Grava vários ranges em uma única chamada (`USER_ENTERED`).
+   *
+   * @see https://developers.google.com/sheets/api/reference/rest/v4/spreadsheets.values/batchUpdate
+   */
+  async valuesBatchUpdate(
+    spreadsheetId: string,
+    data: { range: string; values: (string | number | boolean)[][] }[]
+  ): Promise<any> {
+    return this.google.post(
       "https://sheets.googleapis.com",
       `/v4/spreadsheets/${encodeURIComponent(
         spreadsheetId
-      )}/values/${encodeURIComponent(rangeA1)}`,
-      query
+      )}/values:batchUpdate`,
+      {
+        valueInputOption: "USER_ENTERED",
+        data: data.map((d) => ({ ...d, majorDimension: "ROWS" })),
+      }
     );
   }
 
   /**
-   * Converte um range A1 de célula única (ex.: "A1", "AA10", "Sheet1!B2")
-   * em um `A1Target` com índices base-0 para uso no `updateCells`.
+   * Atualiza ou insere registros em uma aba cuja primeira linha é o cabeçalho.
    *
-   * Regras:
-   * - Se `inputRange` incluir "!", tenta resolver a aba pelo `title`.
-   * - Se não incluir "!", usa a primeira aba do spreadsheet.
-   * - Suporta aba entre aspas simples, ex.: "'Minha Aba'!A1"
-   * - Aceita apenas célula única (não suporta "A1:D10" aqui).
-   *
-   * @param spreadsheet Payload retornado por `getById`.
-   * @param inputRange Range A1 informado pelo usuário.
-   * @returns Estrutura normalizada com sheetId e índices base-0.
+   * - Registros cujas colunas `keys` coincidem com uma linha existente
+   *   atualizam essa linha; colunas não informadas mantêm o valor atual
+   *   (fórmulas são preservadas).
+   * - Os demais são acrescentados após a última linha.
+   * - Colunas novas são adicionadas ao final do cabeçalho.
+   * - Tudo é gravado em um único `values.batchUpdate`.
+   *
+   * A comparação das chaves ignora espaços nas bordas e o apóstrofo de texto,
+   * e compara números e datas pelo valor ("1,5" = 1.5, "19/10/2026" = data
+   * gravada), como a planilha os armazena.
+   *
+   * @param sheetName Título da aba.
+   * @param records Registros `{ coluna: valor }`.
+   * @param keys Colunas que identificam o registro (ex.: ["id"] ou ["cliente", "mes"]).
    */
-  private resolveA1Target(spreadsheet: any, inputRange: string): A1Target {
-    const sheets = spreadsheet?.sheets ?? [];
-    if (!Array.isArray(sheets) || sheets.length === 0) {
-      throw new Error("Planilha não possui abas (sheets) para atualizar.");
+  async upsertRows(
+    spreadsheetId: string,
+    sheetName: string,
+    records: Record<string, unknown>[],
+    keys: string[]
+  ): Promise<{
+    headers: string[];
+    updatedRows: number[];
+    appendedRows: number[];
+    response: any;
+  }> {
+    const sheetRange = quoteSheetName(sheetName);
+
+    const current = await this.getValues(spreadsheetId, sheetRange, {
+      valueRenderOption: "FORMULA",
+    });
+    const existing: any[][] = current?.values ?? [];
+
+    const headers: string[] = (existing[0] ?? []).map((h: any) =>
+      String(h ?? "").trim()
+    );
+    const originalWidth = headers.length;
+    for (const record of records) {
+      for (const column of Object.keys(record)) {
+        if (!headers.includes(column)) headers.push(column);
+      }
     }
 
-    const normalized = String(inputRange || "A1").trim();
+    const missingKeys = keys.filter((k) => !headers.includes(k));
+    if (missingKeys.length > 0) {
+      throw new Error(
+        `Coluna(s) chave não encontrada(s) no cabeçalho: ${missingKeys.join(
+          ", "
+        )}`
+      );
+    }
+
+    // a planilha (FORMULA) e os registros (já com as dicas de tipo) são
+    // comparados na mesma forma canônica: ver `keyValue`
+    const keyIndexes = keys.map((k) => headers.indexOf(k));
+    const keyOf = (row: unknown[]) =>
+      keyIndexes.map((i) => keyValue(row[i])).join("\u0000");
+
+    // chave -> número da linha (base-1) já existente
+    const rowByKey = new Map<string, number>();
+    existing.slice(1).forEach((row, i) => {
+      if (row.some((v) => v !== "" && v !== null)) {
+        rowByKey.set(keyOf(row), i + 2);
+      }
+    });
 
-    // aceita "SheetName!A1" ou só "A1"
-    let sheetName: string | null = null;
-    let cellRef = normalized;
+    // linhas alteradas/acrescentadas, indexadas pelo número da linha
+    const pending = new Map<number, unknown[]>();
+    let nextRow = Math.max(existing.length, 1) + 1;
+    const appendedRows: number[] = [];
+    const updatedRows: number[] = [];
 
-    const bangIdx = normalized.indexOf("!");
-    if (bangIdx !== -1) {
-      sheetName = normalized.slice(0, bangIdx).trim();
-      cellRef = normalized.slice(bangIdx + 1).trim();
+    for (const record of records) {
+      const incoming = headers.map((h) => record[h]);
+      const key = keyOf(incoming.map((v) => toWritable(v)));
 
-      // remove aspas simples caso venha "'Minha Aba'!A1"
-      if (sheetName.startsWith("'") && sheetName.endsWith("'")) {
-        sheetName = sheetName.slice(1, -1);
+      let rowNumber = rowByKey.get(key);
+      if (rowNumber === undefined) {
+        rowNumber = nextRow++;
+        rowByKey.set(key, rowNumber);
+        appendedRows.push(rowNumber);
+      } else if (
+        !updatedRows.includes(rowNumber) &&
+        !appendedRows.includes(rowNumber)
+      ) {
+        updatedRows.push(rowNumber);
       }
+
+      const base = pending.get(rowNumber) ?? existing[rowNumber - 1] ?? [];
+      pending.set(
+        rowNumber,
+        headers.map((h, i) =>
+          h in record ? toWritable(record[h]) : base[i] ?? ""
+        )
+      );
     }
 
-    const sheet = sheetName
-      ? sheets.find((s: any) => s?.properties?.title === sheetName)
-      : sheets[0];
+    const lastColumn = columnIndexToLetters(Math.max(headers.length, 1) - 1);
+    const data: { range: string; values: (string | number | boolean)[][] }[] =
+      [];
 
-    const sheetId = sheet?.properties?.sheetId;
-    if (typeof sheetId !== "number") {
-      throw new Error("Não foi possível identificar o sheetId da aba alvo.");
+    if (headers.length !== originalWidth) {
+      data.push({
+        range: `${sheetRange}!A1:${lastColumn}1`,
+        values: [headers],
+      });
     }
 
-    // célula única: letras + números (A1, B2, AA10)
-    const m = /^([A-Za-z]+)(\d+)$/.exec(cellRef);
-    if (!m) {
-      throw new Error(
-        `Range inválido: "${inputRange}". Use "A1", "B2", "AA10" ou "Aba!B2".`
-      );
+    for (const [rowNumber, row] of pending) {
+      data.push({
+        range: `${sheetRange}!A${rowNumber}:${lastColumn}${rowNumber}`,
+        values: [row as (string | number | boolean)[]],
+      });
     }
 
-    const colLetters = m[1].toUpperCase();
-    const rowNumber = parseInt(m[2], 10);
+    const response =
+      data.length > 0
+        ? await this.valuesBatchUpdate(spreadsheetId, data)
+        : null;
+
+    return { headers, updatedRows, appendedRows, response };
+  }
+
+  /**
+   * GET /v4/spreadsheets/{spreadsheetId}/values:batchGet
+   *
+   * Lê vários ranges (A1 ou intervalos nomeados) em uma única chamada.
+   * `valueRanges` vem na mesma ordem de `ranges`.
+   *
+   * @see https://developers.google.com/sheets/api/reference/rest/v4/spreadsheets.values/batchGet
+   */
+  async valuesBatchGet(
+    spreadsheetId: string,
+    ranges: string[],
+    params?: {
+      valueRenderOption?: ValueRenderOption;
+      dateTimeRenderOption?: DateTimeRenderOption;
+    }
+  ): Promise<{
+    spreadsheetId: string;
+    valueRanges: { range: string; majorDimension?: string; values?: any[][] }[];
+  }> {
+    const query: Query = { ranges };
+    if (params?.valueRenderOption)
+      query.valueRenderOption = params.valueRenderOption;
+    if (params?.dateTimeRenderOption)
+      query.dateTimeRenderOption = params.dateTimeRenderOption;
+
+    return this.google.get(
+      "https://sheets.googleapis.com",
+      `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values:batchGet`,
+      query
+    );
+  }
 
-    if (!Number.isFinite(rowNumber) || rowNumber <= 0) {
-      throw new Error(`Linha inválida em range: "${inputRange}".`);
+  /**
+   * GET /v4/spreadsheets/{spreadsheetId}/values/{range}
+   * Retorna os valores (conteúdo) de um range em notação A1.
+   */
+  async getValues(
+    spreadsheetId: string,
+    rangeA1: string = "A1:Z1000",
+    params?: {
+      valueRenderOption?: ValueRenderOption;
+      dateTimeRenderOption?: DateTimeRenderOption;
     }
+  ): Promise<any> {
+    const query: Record<string, string> = {};
+    if (params?.valueRenderOption)
+      query.valueRenderOption = params.valueRenderOption;
+    if (params?.dateTimeRenderOption)
+      query.dateTimeRenderOption = params.dateTimeRenderOption;
+
+    return this.google.get(
+      "https://sheets.googleapis.com",
+      `/v4/spreadsheets/${encodeURIComponent(
+        spreadsheetId
+      )}/values/${encodeURIComponent(rangeA1)}`,
+      query
+    );
+  }
 
-    const colIndex = this.columnLettersToIndex(colLetters);
-    const rowIndex = rowNumber - 1;
+  /**
+   * Lê um range com os valores convertidos para tipos nativos (número,
+   * booleano, data ISO, texto), usando o grid data do `spreadsheets.get`:
+   * o `effectiveFormat.numberFormat.type` distingue datas de números, o que
+   * `values.get` não informa.
+   *
+   * @returns `values` (linhas x colunas, sem linhas vazias no final) e a
+   *   posição inicial do range (base-0).
+   *
+   * @see https://developers.google.com/sheets/api/reference/rest/v4/spreadsheets/get
+   */
+  async getTypedValues(
+    spreadsheetId: string,
+    rangeA1: string
+  ): Promise<{
+    values: CellValue[][];
+    startRow: number;
+    startColumn: number;
+  }> {
+    const spreadsheet = await this.google.get(
+      "https://sheets.googleapis.com",
+      `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}`,
+      {
+        ranges: rangeA1,
+        includeGridData: "true",
+        fields:
+          "sheets.data(startRow,startColumn,rowData.values(effectiveValue,formattedValue,effectiveFormat.numberFormat.type))",
+      }
+    );
 
-    return {
-      sheetId,
-      startRowIndex: rowIndex,
-      endRowIndex: rowIndex + 1,
-      startColumnIndex: colIndex,
-      endColumnIndex: colIndex + 1,
-      a1: `${sheetName ? `${sheetName}!` : ""}${colLetters}${rowNumber}`,
-    };
+    return gridDataToValues(spreadsheet?.sheets?.[0]?.data?.[0]);
   }
 
   /**
-   * Converte letras de coluna (A, B, Z, AA, AB...) para índice base-0.
+   * Versão de `getTypedValues` para vários ranges em uma única chamada.
    *
-   * Exemplos:
-   * - A  -> 0
-   * - B  -> 1
-   * - Z  -> 25
-   * - AA -> 26
-   * - AB -> 27
+   * O `spreadsheets.get` devolve o grid data agrupado por aba (na ordem das
+   * abas); cada range é associado ao seu grid pela aba em que resolve (ver
+   * `resolveGridRange`), na ordem em que foi pedido.
    *
-   * @param letters Letras da coluna em maiúsculo (A-Z).
-   * @returns Índice base-0 da coluna.
+   * @returns Um item por range, na ordem de `ranges`.
    */
-  private columnLettersToIndex(letters: string): number {
-    let n = 0;
-    for (let i = 0; i < letters.length; i++) {
-      const code = letters.charCodeAt(i);
-      if (code < 65 || code > 90) {
-        throw new Error(`Coluna inválida: "${letters}"`);
+  async getTypedValuesBatch(
+    spreadsheetId: string,
+    ranges: string[]
+  ): Promise<
+    {
+      range: string;
+      values: CellValue[][];
+      startRow: number;
+      startColumn: number;
+    }[]
+  > {
+    const spreadsheet = await this.google.get(
+      "https://sheets.googleapis.com",
+      `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}`,
+      {
+        ranges,
+        includeGridData: "true",
+        fields:
+          "namedRanges(name,range),sheets(properties(sheetId,title),data(startRow,startColumn,rowData.values(effectiveValue,formattedValue,effectiveFormat.numberFormat.type)))",
       }
-      n = n * 26 + (code - 64);
-    }
-    return n - 1;
+    );
+
+    // próximo grid não usado de cada aba
+    const next = new Map<number, number>();
+    return ranges.map((range) => {
+      const { sheetId } = resolveGridRange(spreadsheet, range);
+      const sheet = (spreadsheet?.sheets ?? []).find(
+        (s: any) => (s.properties?.sheetId ?? 0) === sheetId
+      );
+      const i = next.get(sheetId) ?? 0;
+      next.set(sheetId, i + 1);
+      return { range, ...gridDataToValues(sheet?.data?.[i]) };
+    });
   }
 }
@@ -0,0 +1,92 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import { GoogleSheetsApi } from "./google/sheets";
+
+interface OcultarAbaParams {
+  sheetId: string;
+  sheetName: string;
+
+  // false volta a exibir a aba (padrão: true)
+  hidden?: boolean;
+}
+
+async function ocultarAba(params: OcultarAbaParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.sheetId) {
+      console.log(docgo.result(false, null, "sheetId é obrigatório"));
+      return;
+    }
+
+    if (!params.sheetName) {
+      console.log(docgo.result(false, null, "sheetName é obrigatório"));
+      return;
+    }
+
+    const hidden = params.hidden !== false && String(params.hidden) !== "false";
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const sheets = new GoogleSheetsApi(google);
+
+    const existing = await sheets.getSheets(params.sheetId);
+    const sheet = existing.find((s) => s.title === params.sheetName);
+    if (!sheet) {
+      console.log(
+        docgo.result(
+          false,
+          { sheets: existing.map((s) => s.title) },
+          `aba "${params.sheetName}" não encontrada`
+        )
+      );
+      return;
+    }
+
+    // o Sheets exige ao menos uma aba visível
+    if (
+      hidden &&
+      !existing.some((s) => s.sheetId !== sheet.sheetId && !s.hidden)
+    ) {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          "não é possível ocultar a única aba visível da planilha"
+        )
+      );
+      return;
+    }
+
+    await sheets.updateSheetProperties(params.sheetId, sheet.sheetId, {
+      hidden,
+    });
+
+    console.log(
+      docgo.result(true, {
+        spreadsheetId: params.sheetId,
+        sheetId: sheet.sheetId,
+        title: sheet.title,
+        hidden,
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default ocultarAba;
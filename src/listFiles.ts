@@ -1,16 +1,31 @@
 import docgo from "docgo-sdk";
-import { getServiceAccountCredentials } from "./utils";
+import { describeError, getServiceAccountCredentials } from "./utils";
 
 import { GoogleApi } from "./google/google";
-import { GoogleDriveApi } from "./google/drive";
+import {
+  buildDriveQuery,
+  DriveSearchFilters,
+  GoogleDriveApi,
+} from "./google/drive";
 
-interface ListarArquivosParams {
-  q?: string;
+// filtros estruturados (nameContains, type, modifiedAfter...) + `q` bruto
+interface ListarArquivosParams extends DriveSearchFilters {
   pageSize?: number;
   pageToken?: string;
   sharedDriveId?: string;
+
+  // paginação automática
+  all?: boolean;
+  maxItems?: number;
+
+  // percorre subpastas de folderId (ou sharedDriveId), retornando `path`
+  recursive?: boolean;
+  folderId?: string;
 }
 
+const FILE_FIELDS =
+  "id,name,mimeType,parents,modifiedTime,createdTime,webViewLink";
+
 async function listarArquivos(params: ListarArquivosParams): Promise<void> {
   try {
     if (
@@ -21,6 +36,35 @@ async function listarArquivos(params: ListarArquivosParams): Promise<void> {
       params = params[0] as any;
     }
 
+    const filters: DriveSearchFilters = {
+      nameContains: params?.nameContains,
+      fullText: params?.fullText,
+      type: params?.type,
+      parentId: params?.parentId,
+      modifiedAfter: params?.modifiedAfter,
+      modifiedBefore: params?.modifiedBefore,
+      owner: params?.owner,
+      starred: params?.starred,
+      includeTrashed: params?.includeTrashed,
+      q: params?.q,
+    };
+
+    // valida e compila os filtros antes de qualquer chamada à API
+    let q: string;
+    let folderFilter: string;
+    try {
+      q = buildDriveQuery(filters);
+      // no modo recursivo a pasta e a lixeira são tratadas por walkFolder
+      folderFilter = buildDriveQuery({
+        ...filters,
+        parentId: undefined,
+        includeTrashed: true,
+      });
+    } catch (err: any) {
+      console.log(docgo.result(false, null, err.message));
+      return;
+    }
+
     const credentials = getServiceAccountCredentials();
 
     if (!credentials) {
@@ -34,22 +78,75 @@ async function listarArquivos(params: ListarArquivosParams): Promise<void> {
       return;
     }
 
+    const maxItems = params?.maxItems ? Number(params.maxItems) : undefined;
+    if (
+      maxItems !== undefined &&
+      (!Number.isInteger(maxItems) || maxItems <= 0)
+    ) {
+      console.log(
+        docgo.result(false, null, "maxItems deve ser um inteiro positivo")
+      );
+      return;
+    }
+
     const google = new GoogleApi(credentials);
     const drive = new GoogleDriveApi(google);
 
-    const result = await drive.getAll({
-      q: params?.q ?? "trashed=false",
+    if (params?.recursive) {
+      const folderId =
+        params.folderId || params.parentId || params.sharedDriveId;
+      if (!folderId) {
+        console.log(
+          docgo.result(
+            false,
+            null,
+            "folderId ou sharedDriveId é obrigatório no modo recursive"
+          )
+        );
+        return;
+      }
+
+      const result = await drive.walkFolder(folderId, {
+        q: folderFilter || undefined,
+        fields: FILE_FIELDS,
+        maxItems,
+        // mesma regra de buildDriveQuery: query bruta com `trashed` decide
+        includeTrashed:
+          !!filters.includeTrashed || /\btrashed\b/.test(filters.q ?? ""),
+      });
+
+      console.log(
+        docgo.result(true, { ...result, total: result.files.length })
+      );
+      return;
+    }
+
+    const listParams = {
+      q,
       pageSize: params?.pageSize ?? 50,
       pageToken: params?.pageToken,
-      fields:
-        "nextPageToken,files(id,name,mimeType,parents,modifiedTime,createdTime,webViewLink)",
+      fields: `nextPageToken,files(${FILE_FIELDS})`,
       orderBy: "modifiedTime desc",
       sharedDriveId: params?.sharedDriveId,
-    });
+    };
+
+    if (params?.all || maxItems) {
+      const result = await drive.getAllPages(
+        { ...listParams, pageSize: params?.pageSize ?? 1000 },
+        maxItems
+      );
+      console.log(
+        docgo.result(true, { ...result, total: result.files.length })
+      );
+      return;
+    }
+
+    const result = await drive.getAll(listParams);
 
     console.log(docgo.result(true, result));
   } catch (err: any) {
-    console.log(docgo.result(false, null, err?.message ?? String(err)));
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
   }
 }
 
@@ -0,0 +1,54 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import { GoogleDriveApi } from "./google/drive";
+
+interface ListarPermissoesParams {
+  fileId: string;
+}
+
+async function listarPermissoes(params: ListarPermissoesParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.fileId) {
+      console.log(docgo.result(false, null, "fileId é obrigatório"));
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const drive = new GoogleDriveApi(google);
+
+    const permissions = await drive.listPermissions(params.fileId);
+
+    console.log(
+      docgo.result(true, {
+        fileId: params.fileId,
+        count: permissions.length,
+        permissions: permissions.map((p) => ({
+          ...p,
+          // em Drives compartilhados, indica se o acesso vem da pasta/Drive
+          inherited: !!p.permissionDetails?.some((d) => d.inherited),
+        })),
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default listarPermissoes;
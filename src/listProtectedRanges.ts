@@ -0,0 +1,61 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import { gridRangeToA1 } from "./google/a1";
+import { GoogleSheetsApi } from "./google/sheets";
+
+interface ListarProtecoesParams {
+  sheetId: string;
+}
+
+async function listarProtecoes(params: ListarProtecoesParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.sheetId) {
+      console.log(docgo.result(false, null, "sheetId é obrigatório"));
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const sheets = new GoogleSheetsApi(google);
+
+    const protectedRanges = (
+      await sheets.listProtectedRanges(params.sheetId)
+    ).map((p) => ({
+      protectedRangeId: p.protectedRangeId,
+      sheetTitle: p.sheetTitle,
+      // sem range: protege um intervalo nomeado
+      range: p.range ? gridRangeToA1(p.range, p.sheetTitle) : null,
+      description: p.description ?? null,
+      warningOnly: p.warningOnly === true,
+      editors: p.editors?.users ?? [],
+    }));
+
+    console.log(
+      docgo.result(true, {
+        spreadsheetId: params.sheetId,
+        total: protectedRanges.length,
+        protectedRanges,
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default listarProtecoes;
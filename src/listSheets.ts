@@ -0,0 +1,58 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import { GoogleSheetsApi } from "./google/sheets";
+
+interface ListarAbasParams {
+  sheetId: string;
+}
+
+async function listarAbas(params: ListarAbasParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.sheetId) {
+      console.log(docgo.result(false, null, "sheetId é obrigatório"));
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const sheets = new GoogleSheetsApi(google);
+
+    const tabs = (await sheets.getSheets(params.sheetId)).map((s) => ({
+      sheetId: s.sheetId,
+      title: s.title,
+      index: s.index ?? 0,
+      hidden: s.hidden === true,
+      rowCount: s.gridProperties?.rowCount ?? 0,
+      columnCount: s.gridProperties?.columnCount ?? 0,
+      frozenRowCount: s.gridProperties?.frozenRowCount ?? 0,
+    }));
+
+    console.log(
+      docgo.result(true, {
+        spreadsheetId: params.sheetId,
+        total: tabs.length,
+        sheets: tabs,
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default listarAbas;
@@ -0,0 +1,417 @@
+/**
+ * Conversão de Markdown para requests do `documents.batchUpdate` (Google Docs).
+ *
+ * A conversão é orientada a linhas: cada linha do Markdown vira um parágrafo
+ * no documento (linhas em branco viram parágrafos vazios), preservando o
+ * espaçamento que o autor do template usou.
+ *
+ * Suporte:
+ * - títulos (`#` a `######`) -> `namedStyleType` HEADING_1..HEADING_6
+ * - negrito/itálico/tachado (`**`, `__`, `*`, `_`, `~~`)
+ * - código inline (`` `code` ``) e blocos cercados (```) em fonte monoespaçada
+ * - links (`[texto](https://...)`)
+ * - listas com marcadores (`-`, `*`, `+`) e numeradas (`1.`), com aninhamento
+ *   por indentação (tab ou 2 espaços por nível)
+ * - linha horizontal (`---`, `***`, `___`) como parágrafo vazio com borda inferior
+ */
+
+/** Request genérico do `documents.batchUpdate`. */
+export type DocsRequest = Record<string, any>;
+
+type InlineStyle = {
+  bold?: boolean;
+  italic?: boolean;
+  strikethrough?: boolean;
+  code?: boolean;
+  link?: string;
+};
+
+type InlineSegment = {
+  text: string;
+  style: InlineStyle;
+};
+
+type MarkdownParagraph = {
+  segments: InlineSegment[];
+  heading?: number;
+  list?: { ordered: boolean; level: number };
+  rule?: boolean;
+};
+
+const CODE_FONT = "Courier New";
+const LINK_COLOR = { red: 0.07, green: 0.33, blue: 0.8 };
+
+/** A Docs API suporta níveis de aninhamento de 0 a 8 em listas. */
+const MAX_LIST_LEVEL = 8;
+
+/**
+ * Campos de estilo de texto resetados antes da aplicação do Markdown,
+ * para que o conteúdo novo não herde a formatação do parágrafo remanescente.
+ */
+const RESET_TEXT_FIELDS =
+  "bold,italic,underline,strikethrough,link,weightedFontFamily,foregroundColor";
+
+/**
+ * Quebra o trecho inline em segmentos com estilo.
+ *
+ * Delimitadores sem fechamento são mantidos como texto literal, e `\` escapa
+ * o próximo caractere de pontuação.
+ */
+function parseInline(
+  text: string,
+  inherited: InlineStyle = {}
+): InlineSegment[] {
+  const segments: InlineSegment[] = [];
+  let buffer = "";
+
+  const flush = () => {
+    if (buffer) segments.push({ text: buffer, style: inherited });
+    buffer = "";
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (
+      ch === "\\" &&
+      i + 1 < text.length &&
+      /[!-/:-@[-`{-~]/.test(text[i + 1])
+    ) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === "`") {
+      const close = text.indexOf("`", i + 1);
+      if (close > i + 1) {
+        flush();
+        segments.push({
+          text: text.slice(i + 1, close),
+          style: { ...inherited, code: true },
+        });
+        i = close + 1;
+        continue;
+      }
+    }
+
+    if (ch === "[") {
+      const m = /^\[([^\]]+)\]\(([^)\s]+)\)/.exec(text.slice(i));
+      if (m) {
+        flush();
+        segments.push(...parseInline(m[1], { ...inherited, link: m[2] }));
+        i += m[0].length;
+        continue;
+      }
+    }
+
+    const delimiter = matchDelimiter(text, i);
+    if (delimiter) {
+      const close = findClosing(text, i + delimiter.length, delimiter);
+      if (close !== -1) {
+        flush();
+        const inner = text.slice(i + delimiter.length, close);
+        segments.push(
+          ...parseInline(inner, applyDelimiter(inherited, delimiter))
+        );
+        i = close + delimiter.length;
+        continue;
+      }
+    }
+
+    buffer += ch;
+    i++;
+  }
+
+  flush();
+  return segments;
+}
+
+/**
+ * Identifica um delimitador de ênfase na posição `i`.
+ * `_` só abre ênfase fora de palavras (evita quebrar `snake_case`).
+ */
+function matchDelimiter(text: string, i: number): string | null {
+  for (const d of ["***", "**", "__", "~~", "*", "_"]) {
+    if (!text.startsWith(d, i)) continue;
+    if (d[0] === "_" && i > 0 && /\w/.test(text[i - 1])) return null;
+    // o conteúdo precisa começar colado ao delimitador ("** x**" não é ênfase)
+    const next = text[i + d.length];
+    if (next === undefined || /\s/.test(next)) return null;
+    return d;
+  }
+  return null;
+}
+
+function findClosing(text: string, from: number, delimiter: string): number {
+  let idx = text.indexOf(delimiter, from);
+  while (idx !== -1) {
+    const prev = text[idx - 1];
+    const after = text[idx + delimiter.length];
+    const closesWord =
+      delimiter[0] !== "_" || after === undefined || !/\w/.test(after);
+    if (idx > from && !/\s/.test(prev) && closesWord) return idx;
+    idx = text.indexOf(delimiter, idx + 1);
+  }
+  return -1;
+}
+
+function applyDelimiter(style: InlineStyle, delimiter: string): InlineStyle {
+  switch (delimiter) {
+    case "***":
+      return { ...style, bold: true, italic: true };
+    case "**":
+    case "__":
+      return { ...style, bold: true };
+    case "~~":
+      return { ...style, strikethrough: true };
+    default:
+      return { ...style, italic: true };
+  }
+}
+
+/**
+ * Converte o Markdown em parágrafos estruturados (um por linha).
+ */
+function parseMarkdownBlocks(markdown: string): MarkdownParagraph[] {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const paragraphs: MarkdownParagraph[] = [];
+
+  let inFence = false;
+
+  for (const line of lines) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+
+    if (inFence) {
+      paragraphs.push({ segments: [{ text: line, style: { code: true } }] });
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      paragraphs.push({ segments: [], rule: true });
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      paragraphs.push({
+        segments: parseInline(heading[2]),
+        heading: heading[1].length,
+      });
+      continue;
+    }
+
+    const item = /^([ \t]*)([-*+]|\d+[.)])\s+(.*)$/.exec(line);
+    if (item) {
+      paragraphs.push({
+        segments: parseInline(item[3]),
+        list: {
+          ordered: /\d/.test(item[2]),
+          level: indentLevel(item[1]),
+        },
+      });
+      continue;
+    }
+
+    paragraphs.push({ segments: parseInline(line.trim()) });
+  }
+
+  return paragraphs;
+}
+
+function indentLevel(indent: string): number {
+  let width = 0;
+  for (const ch of indent) width += ch === "\t" ? 2 : 1;
+  return Math.min(MAX_LIST_LEVEL, Math.floor(width / 2));
+}
+
+/**
+ * Gera os requests do `documents.batchUpdate` que inserem `markdown` a partir
+ * de `index` já formatado.
+ *
+ * Ordem dos requests (todos calculados sobre o texto inserido):
+ * 1) `insertText` com o texto completo.
+ * 2) reset de estilos de parágrafo/texto/bullets no intervalo inserido.
+ * 3) `updateParagraphStyle` para títulos e linhas horizontais.
+ * 4) `updateTextStyle` para ênfases, código e links.
+ * 5) `createParagraphBullets`, do fim para o início do documento.
+ *
+ * O passo 5 fica por último porque a Docs API remove os tabs iniciais usados
+ * para indicar o nível de aninhamento, deslocando os índices seguintes. Aplicando
+ * de trás para frente, os intervalos ainda não processados não são afetados.
+ *
+ * Por padrão, o último parágrafo termina no "\n" que já existe na posição de
+ * inserção (ex.: o fim do body após apagar o conteúdo). Para inserir no meio de
+ * um parágrafo existente, use:
+ * - `leadingNewline`: quebra o parágrafo atual antes do conteúdo
+ *   (ex.: inserir antes do "\n" final de um parágrafo).
+ * - `trailingNewline`: encerra o último parágrafo com seu próprio "\n"
+ *   (ex.: inserir no início de um parágrafo que não está vazio).
+ *
+ * @param markdown Conteúdo em Markdown.
+ * @param index Índice de inserção no body (normalmente 1).
+ * @param opts Controle das quebras de parágrafo nas bordas do conteúdo.
+ * @returns Lista de requests prontos para o `batchUpdate` (vazia se não houver conteúdo).
+ */
+function markdownToDocsRequests(
+  markdown: string,
+  index = 1,
+  opts: { leadingNewline?: boolean; trailingNewline?: boolean } = {}
+): DocsRequest[] {
+  if (!markdown.trim()) return [];
+
+  const paragraphs = parseMarkdownBlocks(markdown);
+
+  const paragraphStyles: DocsRequest[] = [];
+  const textStyles: DocsRequest[] = [];
+  const listGroups: { start: number; end: number; ordered: boolean }[] = [];
+
+  let text = opts.leadingNewline ? "\n" : "";
+  let cursor = index + text.length;
+  const contentStart = cursor;
+  let currentGroup: { start: number; end: number; ordered: boolean } | null =
+    null;
+
+  paragraphs.forEach((p, i) => {
+    const start = cursor;
+    let paragraphText = p.list ? "\t".repeat(p.list.level) : "";
+    cursor += paragraphText.length;
+
+    for (const seg of p.segments) {
+      const segStart = cursor;
+      paragraphText += seg.text;
+      cursor += seg.text.length;
+      const style = toTextStyle(seg.style);
+      if (style && seg.text.length > 0) {
+        textStyles.push({
+          updateTextStyle: {
+            range: { startIndex: segStart, endIndex: cursor },
+            textStyle: style.textStyle,
+            fields: style.fields,
+          },
+        });
+      }
+    }
+
+    // sem `trailingNewline`, o último parágrafo usa o "\n" já existente
+    const isLast = i === paragraphs.length - 1;
+    text +=
+      isLast && !opts.trailingNewline ? paragraphText : paragraphText + "\n";
+    const end = cursor + 1;
+    cursor = end;
+
+    if (p.heading) {
+      paragraphStyles.push({
+        updateParagraphStyle: {
+          range: { startIndex: start, endIndex: end },
+          paragraphStyle: { namedStyleType: `HEADING_${p.heading}` },
+          fields: "namedStyleType",
+        },
+      });
+    }
+
+    if (p.rule) {
+      paragraphStyles.push({
+        updateParagraphStyle: {
+          range: { startIndex: start, endIndex: end },
+          paragraphStyle: {
+            borderBottom: {
+              color: {
+                color: { rgbColor: { red: 0.6, green: 0.6, blue: 0.6 } },
+              },
+              width: { magnitude: 1, unit: "PT" },
+              padding: { magnitude: 1, unit: "PT" },
+              dashStyle: "SOLID",
+            },
+          },
+          fields: "borderBottom",
+        },
+      });
+    }
+
+    if (p.list) {
+      const continues =
+        currentGroup &&
+        (p.list.level > 0 || currentGroup.ordered === p.list.ordered);
+      if (continues) {
+        currentGroup!.end = end;
+      } else {
+        currentGroup = { start, end, ordered: p.list.ordered };
+        listGroups.push(currentGroup);
+      }
+    } else {
+      currentGroup = null;
+    }
+  });
+
+  // fim do último parágrafo (inclui o "\n", inserido ou já existente)
+  const insertedEnd = cursor;
+
+  const requests: DocsRequest[] = [
+    { insertText: { location: { index }, text } },
+    {
+      updateParagraphStyle: {
+        range: { startIndex: contentStart, endIndex: insertedEnd },
+        paragraphStyle: { namedStyleType: "NORMAL_TEXT" },
+        fields: "namedStyleType,borderBottom",
+      },
+    },
+    {
+      deleteParagraphBullets: {
+        range: { startIndex: contentStart, endIndex: insertedEnd },
+      },
+    },
+  ];
+
+  if (index + text.length > contentStart) {
+    requests.push({
+      updateTextStyle: {
+        range: { startIndex: contentStart, endIndex: index + text.length },
+        textStyle: {},
+        fields: RESET_TEXT_FIELDS,
+      },
+    });
+  }
+
+  requests.push(...paragraphStyles, ...textStyles);
+
+  for (const group of [...listGroups].reverse()) {
+    requests.push({
+      createParagraphBullets: {
+        range: { startIndex: group.start, endIndex: group.end },
+        bulletPreset: group.ordered
+          ? "NUMBERED_DECIMAL_ALPHA_ROMAN"
+          : "BULLET_DISC_CIRCLE_SQUARE",
+      },
+    });
+  }
+
+  return requests;
+}
+
+function toTextStyle(
+  style: InlineStyle
+): { textStyle: Record<string, any>; fields: string } | null {
+  const textStyle: Record<string, any> = {};
+
+  if (style.bold) textStyle.bold = true;
+  if (style.italic) textStyle.italic = true;
+  if (style.strikethrough) textStyle.strikethrough = true;
+  if (style.code) textStyle.weightedFontFamily = { fontFamily: CODE_FONT };
+  if (style.link) {
+    textStyle.link = { url: style.link };
+    textStyle.underline = true;
+    textStyle.foregroundColor = { color: { rgbColor: LINK_COLOR } };
+  }
+
+  const fields = Object.keys(textStyle);
+  if (fields.length === 0) return null;
+
+  return { textStyle, fields: fields.join(",") };
+}
+
+export { markdownToDocsRequests, parseInline, parseMarkdownBlocks };
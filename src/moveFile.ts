@@ -0,0 +1,74 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import { GoogleDriveApi } from "./google/drive";
+
+interface MoverArquivoParams {
+  fileId: string;
+
+  // pasta de destino
+  folderId: string;
+
+  // subcaminho dentro de folderId, criado se não existir ("ACME/2026")
+  folderPath?: string;
+}
+
+async function moverArquivo(params: MoverArquivoParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.fileId) {
+      console.log(docgo.result(false, null, "fileId é obrigatório"));
+      return;
+    }
+
+    if (!params.folderId) {
+      console.log(docgo.result(false, null, "folderId é obrigatório"));
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const drive = new GoogleDriveApi(google);
+
+    let folderId = params.folderId;
+    let created: string[] = [];
+    if (params.folderPath?.replace(/\//g, "").trim()) {
+      const ensured = await drive.ensureFolderPath(
+        params.folderPath,
+        params.folderId
+      );
+      folderId = ensured.folder.id;
+      created = ensured.created;
+    }
+
+    const file = await drive.move(params.fileId, folderId);
+
+    console.log(
+      docgo.result(true, {
+        id: file.id,
+        name: file.name,
+        folderId,
+        file,
+        createdFolders: created,
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default moverArquivo;
@@ -0,0 +1,80 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import { GoogleSheetsApi } from "./google/sheets";
+
+interface MoverAbaParams {
+  sheetId: string;
+  sheetName: string;
+
+  // nova posição (0 = primeira)
+  index: number;
+}
+
+async function moverAba(params: MoverAbaParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.sheetId) {
+      console.log(docgo.result(false, null, "sheetId é obrigatório"));
+      return;
+    }
+
+    if (!params.sheetName) {
+      console.log(docgo.result(false, null, "sheetName é obrigatório"));
+      return;
+    }
+
+    const index = Number(params.index);
+    if (
+      params.index === undefined ||
+      String(params.index) === "" ||
+      !Number.isInteger(index) ||
+      index < 0
+    ) {
+      console.log(
+        docgo.result(false, null, "index deve ser um inteiro positivo")
+      );
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const sheets = new GoogleSheetsApi(google);
+
+    const sheet = await sheets.findSheet(params.sheetId, params.sheetName);
+    await sheets.updateSheetProperties(params.sheetId, sheet.sheetId, {
+      index,
+    });
+
+    const order = (await sheets.getSheets(params.sheetId)).map((s) => s.title);
+
+    console.log(
+      docgo.result(true, {
+        spreadsheetId: params.sheetId,
+        sheetId: sheet.sheetId,
+        title: sheet.title,
+        previousIndex: sheet.index ?? 0,
+        index: order.indexOf(sheet.title),
+        order,
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default moverAba;
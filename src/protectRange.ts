@@ -0,0 +1,125 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import { GoogleSheetsApi } from "./google/sheets";
+
+interface ProtegerIntervaloParams {
+  sheetId: string;
+
+  // range protegido (ex.: "A1:F1"); sem range, a aba inteira de sheetName
+  range?: string;
+  sheetName?: string;
+
+  description?: string;
+
+  // emails que podem editar: array, JSON ou separados por vírgula
+  editors?: string[] | string;
+
+  // só avisa ao editar, sem bloquear
+  warningOnly?: boolean;
+}
+
+function parseEditors(editors: ProtegerIntervaloParams["editors"]): string[] {
+  if (!editors) return [];
+  if (Array.isArray(editors)) return editors;
+
+  const text = editors.trim();
+  if (text.startsWith("[")) {
+    try {
+      const parsed = JSON.parse(text);
+      if (Array.isArray(parsed)) return parsed;
+    } catch {
+      // não é JSON: separa por vírgula/linha
+    }
+  }
+  return text
+    .split(/\r?\n|,|;/)
+    .map((e) => e.trim())
+    .filter(Boolean);
+}
+
+async function protegerIntervalo(
+  params: ProtegerIntervaloParams
+): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.sheetId) {
+      console.log(docgo.result(false, null, "sheetId é obrigatório"));
+      return;
+    }
+
+    const range = params.range?.trim() || params.sheetName?.trim();
+    if (!range) {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          "informe range ou sheetName (para proteger a aba inteira)"
+        )
+      );
+      return;
+    }
+
+    const editors = parseEditors(params.editors);
+    const invalid = editors.filter(
+      (e) => !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(e)
+    );
+    if (invalid.length > 0) {
+      console.log(
+        docgo.result(false, null, `email(s) inválido(s): ${invalid.join(", ")}`)
+      );
+      return;
+    }
+
+    const warningOnly =
+      params.warningOnly === true || String(params.warningOnly) === "true";
+    if (warningOnly && editors.length > 0) {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          "warningOnly não pode ser combinado com editors"
+        )
+      );
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const sheets = new GoogleSheetsApi(google);
+
+    const protectedRange = await sheets.addProtectedRange(
+      params.sheetId,
+      range,
+      { description: params.description, editors, warningOnly },
+      params.sheetName || undefined
+    );
+
+    console.log(
+      docgo.result(true, {
+        spreadsheetId: params.sheetId,
+        range,
+        protectedRangeId: protectedRange?.protectedRangeId,
+        protectedRange,
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default protegerIntervalo;
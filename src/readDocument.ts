@@ -1,12 +1,18 @@
 import docgo from "docgo-sdk";
 
-import { extractPlainText, getServiceAccountCredentials } from "./utils";
+import {
+  describeError,
+  extractPlainText,
+  extractTables,
+  getServiceAccountCredentials,
+} from "./utils";
 import { GoogleApi } from "./google/google";
 import { GoogleDocsApi } from "./google/docs";
+import { documentToHtml, documentToMarkdown } from "./render";
 
 interface LerArquivoParams {
   documentId: string;
-  mode?: "ONLY_TEXT" | "PARAGRAPH_TREE";
+  mode?: "ONLY_TEXT" | "PARAGRAPH_TREE" | "MARKDOWN" | "HTML" | "TABLES";
 }
 
 async function lerArquivo(params: LerArquivoParams): Promise<void> {
@@ -40,10 +46,26 @@ async function lerArquivo(params: LerArquivoParams): Promise<void> {
       return;
     }
 
+    if (params.mode === "MARKDOWN") {
+      console.log(docgo.result(true, documentToMarkdown(result)));
+      return;
+    }
+
+    if (params.mode === "HTML") {
+      console.log(docgo.result(true, documentToHtml(result)));
+      return;
+    }
+
+    if (params.mode === "TABLES") {
+      console.log(docgo.result(true, extractTables(result)));
+      return;
+    }
+
     const parsed = extractPlainText(result);
     console.log(docgo.result(true, parsed));
   } catch (err: any) {
-    console.log(docgo.result(false, null, err?.message ?? String(err)));
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
   }
 }
 
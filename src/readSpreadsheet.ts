@@ -1,12 +1,111 @@
 import docgo from "docgo-sdk";
 
-import { getServiceAccountCredentials } from "./utils";
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { CsvDelimiter, stringifyCsv } from "./csv";
 import { GoogleApi } from "./google/google";
-import { GoogleSheetsApi } from "./google/sheets";
+import { parseA1, quoteSheetName } from "./google/a1";
+import {
+  DateTimeRenderOption,
+  GoogleSheetsApi,
+  rowsToObjects,
+  ValueRenderOption,
+} from "./google/sheets";
+
+const VALUE_RENDER_OPTIONS: ValueRenderOption[] = [
+  "FORMATTED_VALUE",
+  "UNFORMATTED_VALUE",
+  "FORMULA",
+];
+
+const DATE_TIME_RENDER_OPTIONS: DateTimeRenderOption[] = [
+  "SERIAL_NUMBER",
+  "FORMATTED_STRING",
+];
 
 interface LerArquivoParams {
   sheetId: string;
+
+  // sem range: lê a aba inteira (dimensões da grade)
   range?: string;
+
+  // vários ranges (A1 ou intervalos nomeados) em uma única chamada;
+  // o resultado vem indexado pelo range
+  ranges?: string[] | string;
+
+  // aba a ler (padrão: a primeira)
+  sheetName?: string;
+
+  // usa a primeira linha como cabeçalho e retorna [{ coluna: valor }]
+  asObjects?: boolean;
+
+  valueRenderOption?: ValueRenderOption;
+  dateTimeRenderOption?: DateTimeRenderOption;
+
+  // json (padrão) ou csv (RFC 4180)
+  format?: "json" | "csv";
+
+  // delimitador do CSV gerado (padrão: ",")
+  delimiter?: CsvDelimiter;
+}
+
+/**
+ * Aceita lista de ranges como array, JSON ou um range por linha.
+ */
+function parseRanges(ranges: string[] | string): string[] {
+  let list: unknown = ranges;
+  if (typeof list === "string") {
+    const text = list.trim();
+    if (text.startsWith("[")) {
+      try {
+        list = JSON.parse(text);
+      } catch {
+        list = text.split(/\r?\n/);
+      }
+    } else {
+      list = text.split(/\r?\n/);
+    }
+  }
+  return (Array.isArray(list) ? list : [])
+    .map((r) => String(r).trim())
+    .filter(Boolean);
+}
+
+/**
+ * Prefixa com a aba um range A1 sem aba ("A1:D10" -> "'Vendas'!A1:D10");
+ * ranges com aba e intervalos nomeados ficam como estão.
+ */
+function withSheetName(range: string, sheetName?: string): string {
+  if (!sheetName || range.includes("!") || !parseA1(range)) return range;
+  return `${quoteSheetName(sheetName)}!${range}`;
+}
+
+/**
+ * Formata um `ValueRange` (values.get/batchGet) conforme a saída pedida:
+ * bruto, objetos (cabeçalho na primeira linha) ou CSV.
+ */
+function formatValueRange(
+  valueRange: { range: string; values?: any[][] },
+  format: "json" | "csv",
+  asObjects: boolean,
+  delimiter?: CsvDelimiter
+): unknown {
+  const values = valueRange.values ?? [];
+
+  if (format === "csv") {
+    return {
+      range: valueRange.range,
+      rows: values.length,
+      csv: stringifyCsv(values, { delimiter }),
+    };
+  }
+
+  if (!asObjects) return valueRange;
+
+  // coluna inicial do range retornado (ex.: "Vendas!C1:F20" -> C)
+  const firstColumn = parseA1(valueRange.range)?.startColumnIndex ?? 0;
+  const { headers, rows } = rowsToObjects(values, firstColumn);
+
+  return { range: valueRange.range, headers, count: rows.length, rows };
 }
 
 async function lerArquivo(params: LerArquivoParams): Promise<void> {
@@ -24,6 +123,42 @@ async function lerArquivo(params: LerArquivoParams): Promise<void> {
       return;
     }
 
+    if (
+      params.valueRenderOption &&
+      !VALUE_RENDER_OPTIONS.includes(params.valueRenderOption)
+    ) {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          `valueRenderOption inválido. Use: ${VALUE_RENDER_OPTIONS.join(", ")}`
+        )
+      );
+      return;
+    }
+
+    if (
+      params.dateTimeRenderOption &&
+      !DATE_TIME_RENDER_OPTIONS.includes(params.dateTimeRenderOption)
+    ) {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          `dateTimeRenderOption inválido. Use: ${DATE_TIME_RENDER_OPTIONS.join(
+            ", "
+          )}`
+        )
+      );
+      return;
+    }
+
+    const format = params.format ?? "json";
+    if (format !== "json" && format !== "csv") {
+      console.log(docgo.result(false, null, "format inválido. Use: json, csv"));
+      return;
+    }
+
     const credentials = getServiceAccountCredentials();
 
     if (!credentials) {
@@ -34,11 +169,110 @@ async function lerArquivo(params: LerArquivoParams): Promise<void> {
     const google = new GoogleApi(credentials);
     const sheets = new GoogleSheetsApi(google);
 
-    const result = await sheets.getValues(params.sheetId, params.range);
+    const asObjects =
+      params.asObjects === true || String(params.asObjects) === "true";
+
+    // vários ranges: uma única chamada a values.batchGet
+    if (params.ranges) {
+      const ranges = parseRanges(params.ranges);
+      if (ranges.length === 0) {
+        console.log(
+          docgo.result(false, null, "ranges deve conter ao menos um range")
+        );
+        return;
+      }
+
+      const qualified = ranges.map((r) => withSheetName(r, params.sheetName));
+      const byRange: Record<string, unknown> = {};
+
+      // objetos sem render option explícito: tipos nativos, como no range único
+      if (format === "json" && asObjects && !params.valueRenderOption) {
+        const typed = await sheets.getTypedValuesBatch(
+          params.sheetId,
+          qualified
+        );
+        ranges.forEach((requested, i) => {
+          const { headers, rows } = rowsToObjects(
+            typed[i].values,
+            typed[i].startColumn
+          );
+          byRange[requested] = {
+            range: qualified[i],
+            headers,
+            count: rows.length,
+            rows,
+          };
+        });
+      } else {
+        const result = await sheets.valuesBatchGet(params.sheetId, qualified, {
+          valueRenderOption:
+            params.valueRenderOption ??
+            (asObjects ? "UNFORMATTED_VALUE" : undefined),
+          dateTimeRenderOption:
+            params.dateTimeRenderOption ??
+            (asObjects ? "FORMATTED_STRING" : undefined),
+        });
+
+        ranges.forEach((requested, i) => {
+          const valueRange = result?.valueRanges?.[i] ?? {
+            range: qualified[i],
+          };
+          byRange[requested] = formatValueRange(
+            valueRange,
+            format,
+            asObjects,
+            params.delimiter
+          );
+        });
+      }
+
+      console.log(
+        docgo.result(true, {
+          spreadsheetId: params.sheetId,
+          ranges: byRange,
+        })
+      );
+      return;
+    }
+
+    let range = params.range?.trim();
+    if (!range) {
+      range = (await sheets.getFullRange(params.sheetId, params.sheetName))
+        .range;
+    } else {
+      range = withSheetName(range, params.sheetName);
+    }
+
+    // objetos sem render option explícito: tipos nativos (inclusive datas)
+    if (format === "json" && asObjects && !params.valueRenderOption) {
+      const typed = await sheets.getTypedValues(params.sheetId, range);
+      const { headers, rows } = rowsToObjects(typed.values, typed.startColumn);
+
+      console.log(
+        docgo.result(true, { range, headers, count: rows.length, rows })
+      );
+      return;
+    }
+
+    const result = await sheets.getValues(params.sheetId, range, {
+      valueRenderOption: params.valueRenderOption,
+      dateTimeRenderOption: params.dateTimeRenderOption,
+    });
 
-    console.log(docgo.result(true, result));
+    console.log(
+      docgo.result(
+        true,
+        formatValueRange(
+          { ...result, range: result?.range ?? range },
+          format,
+          asObjects,
+          params.delimiter
+        )
+      )
+    );
   } catch (err: any) {
-    console.log(docgo.result(false, null, err?.message ?? String(err)));
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
   }
 }
 
@@ -0,0 +1,62 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import { GoogleDriveApi } from "./google/drive";
+
+interface RenomearArquivoParams {
+  fileId: string;
+  name: string;
+}
+
+async function renomearArquivo(params: RenomearArquivoParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.fileId) {
+      console.log(docgo.result(false, null, "fileId é obrigatório"));
+      return;
+    }
+
+    if (!params.name?.trim()) {
+      console.log(docgo.result(false, null, "name é obrigatório"));
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const drive = new GoogleDriveApi(google);
+
+    const previous = await drive.getById(params.fileId, "id,name");
+    const file = await drive.updateById(
+      params.fileId,
+      { name: params.name.trim() },
+      { fields: "id,name,mimeType,parents,webViewLink" }
+    );
+
+    console.log(
+      docgo.result(true, {
+        id: file.id,
+        name: file.name,
+        previousName: previous.name,
+        file,
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default renomearArquivo;
@@ -0,0 +1,67 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import { GoogleSheetsApi } from "./google/sheets";
+
+interface RenomearAbaParams {
+  sheetId: string;
+  sheetName: string;
+  newName: string;
+}
+
+async function renomearAba(params: RenomearAbaParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.sheetId) {
+      console.log(docgo.result(false, null, "sheetId é obrigatório"));
+      return;
+    }
+
+    if (!params.sheetName) {
+      console.log(docgo.result(false, null, "sheetName é obrigatório"));
+      return;
+    }
+
+    const newName = params.newName?.trim();
+    if (!newName) {
+      console.log(docgo.result(false, null, "newName é obrigatório"));
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const sheets = new GoogleSheetsApi(google);
+
+    const sheet = await sheets.findSheet(params.sheetId, params.sheetName);
+    await sheets.updateSheetProperties(params.sheetId, sheet.sheetId, {
+      title: newName,
+    });
+
+    console.log(
+      docgo.result(true, {
+        spreadsheetId: params.sheetId,
+        sheetId: sheet.sheetId,
+        title: newName,
+        previousTitle: sheet.title,
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default renomearAba;
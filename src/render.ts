@@ -0,0 +1,355 @@
+import {
+  DocsDocument,
+  DocsParagraph,
+  DocsStructuralElement,
+  DocsTable,
+  DocsTextStyle,
+} from "./types";
+
+/**
+ * Renderização de documentos do Google Docs (payload de `documents.get`)
+ * em Markdown e HTML.
+ *
+ * Percorre a árvore completa do `body.content`:
+ * - títulos a partir do `paragraphStyle.namedStyleType` (TITLE, HEADING_1..6)
+ * - negrito/itálico/sublinhado/tachado e links a partir do `textStyle`
+ * - trechos em fonte monoespaçada como código
+ * - listas (com marcadores ou numeradas) com níveis de aninhamento resolvidos
+ *   via `document.lists`
+ * - tabelas (recursivamente) e sumários (`tableOfContents`)
+ */
+
+type Run = { text: string; style: DocsTextStyle };
+
+type ListInfo = { ordered: boolean; level: number; listId: string };
+
+const MONOSPACE_FONTS = [
+  "courier new",
+  "consolas",
+  "roboto mono",
+  "source code pro",
+  "inconsolata",
+];
+
+const HEADING_LEVELS: Record<string, number> = {
+  TITLE: 1,
+  SUBTITLE: 2,
+  HEADING_1: 1,
+  HEADING_2: 2,
+  HEADING_3: 3,
+  HEADING_4: 4,
+  HEADING_5: 5,
+  HEADING_6: 6,
+};
+
+function headingLevel(p: DocsParagraph): number | null {
+  const named = p.paragraphStyle?.namedStyleType;
+  return named ? HEADING_LEVELS[named] ?? null : null;
+}
+
+function isCode(style: DocsTextStyle): boolean {
+  const font = style.weightedFontFamily?.fontFamily?.toLowerCase();
+  return !!font && MONOSPACE_FONTS.includes(font);
+}
+
+/**
+ * Identifica o tipo de lista do parágrafo pelo glyph do nível de aninhamento.
+ * Listas com marcador têm `glyphSymbol`; listas numeradas têm `glyphType`.
+ */
+function listInfo(doc: DocsDocument, p: DocsParagraph): ListInfo | null {
+  const listId = p.bullet?.listId;
+  if (!listId) return null;
+
+  const level = p.bullet?.nestingLevel ?? 0;
+  const glyph =
+    doc.lists?.[listId]?.listProperties?.nestingLevels?.[level] ?? {};
+
+  const ordered =
+    !glyph.glyphSymbol &&
+    !!glyph.glyphType &&
+    glyph.glyphType !== "NONE" &&
+    glyph.glyphType !== "GLYPH_TYPE_UNSPECIFIED";
+
+  return { ordered, level, listId };
+}
+
+/**
+ * Extrai os runs de texto do parágrafo, sem a quebra de linha final e
+ * juntando runs vizinhos com o mesmo estilo.
+ */
+function paragraphRuns(p: DocsParagraph): Run[] {
+  const runs: Run[] = [];
+
+  for (const el of p.elements ?? []) {
+    const content = el.textRun?.content;
+    if (typeof content !== "string" || content.length === 0) continue;
+
+    const text = content.replace(/\u000b/g, "\n");
+    const style = el.textRun?.textStyle ?? {};
+
+    const prev = runs[runs.length - 1];
+    if (prev && sameStyle(prev.style, style)) {
+      prev.text += text;
+    } else {
+      runs.push({ text, style });
+    }
+  }
+
+  const last = runs[runs.length - 1];
+  if (last) {
+    last.text = last.text.replace(/\n$/, "");
+    if (!last.text) runs.pop();
+  }
+
+  return runs;
+}
+
+function sameStyle(a: DocsTextStyle, b: DocsTextStyle): boolean {
+  return (
+    !!a.bold === !!b.bold &&
+    !!a.italic === !!b.italic &&
+    !!a.underline === !!b.underline &&
+    !!a.strikethrough === !!b.strikethrough &&
+    a.link?.url === b.link?.url &&
+    isCode(a) === isCode(b)
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>|~#])/g, "\\$1");
+}
+
+function runToMarkdown(run: Run): string {
+  // espaços nas bordas ficam fora dos marcadores ("** x**" não é ênfase)
+  const m = /^(\s*)([\s\S]*?)(\s*)$/.exec(run.text)!;
+  const [, lead, core, trail] = m;
+  if (!core) return run.text;
+
+  const { style } = run;
+  let out = isCode(style)
+    ? "`" + core.replace(/`/g, "'") + "`"
+    : escapeMarkdown(core);
+
+  if (style.strikethrough) out = `~~${out}~~`;
+  if (style.italic) out = `_${out}_`;
+  if (style.bold) out = `**${out}**`;
+  // o Docs sublinha links automaticamente
+  if (style.underline && !style.link?.url) out = `<u>${out}</u>`;
+  if (style.link?.url) out = `[${out}](${style.link.url})`;
+
+  return lead + out + trail;
+}
+
+function paragraphToMarkdown(p: DocsParagraph): string {
+  return paragraphRuns(p).map(runToMarkdown).join("").replace(/\n/g, "  \n");
+}
+
+function tableToMarkdown(doc: DocsDocument, table: DocsTable): string {
+  const rows = (table.tableRows ?? []).map((row) =>
+    (row.tableCells ?? []).map((cell) =>
+      (cell.content ?? [])
+        .map((el) =>
+          el.paragraph
+            ? paragraphToMarkdown(el.paragraph)
+            : blocksToMarkdown(doc, [el])
+        )
+        .filter(Boolean)
+        .join("<br>")
+        .replace(/\n/g, "<br>")
+    )
+  );
+  if (rows.length === 0) return "";
+
+  const width = Math.max(...rows.map((r) => r.length));
+  const line = (cells: string[]) =>
+    "| " +
+    Array.from({ length: width }, (_, i) => cells[i] ?? "").join(" | ") +
+    " |";
+
+  return [
+    line(rows[0]),
+    line(Array.from({ length: width }, () => "---")),
+    ...rows.slice(1).map(line),
+  ].join("\n");
+}
+
+function blocksToMarkdown(
+  doc: DocsDocument,
+  content: DocsStructuralElement[]
+): string {
+  const out: string[] = [];
+  let prevWasList = false;
+
+  const push = (block: string, isList: boolean) => {
+    if (out.length > 0) out.push(isList && prevWasList ? "\n" : "\n\n");
+    out.push(block);
+    prevWasList = isList;
+  };
+
+  for (const el of content) {
+    if (el.paragraph) {
+      const text = paragraphToMarkdown(el.paragraph);
+      const list = listInfo(doc, el.paragraph);
+
+      if (list) {
+        const marker = list.ordered ? "1." : "-";
+        push(`${"  ".repeat(list.level)}${marker} ${text}`, true);
+        continue;
+      }
+
+      if (!text.trim()) continue;
+
+      const level = headingLevel(el.paragraph);
+      push(level ? `${"#".repeat(level)} ${text}` : text, false);
+    } else if (el.table) {
+      const table = tableToMarkdown(doc, el.table);
+      if (table) push(table, false);
+    } else if (el.tableOfContents) {
+      const toc = blocksToMarkdown(doc, el.tableOfContents.content ?? []);
+      if (toc) push(toc, false);
+    }
+  }
+
+  return out.join("");
+}
+
+/**
+ * Converte o documento em Markdown (GFM).
+ *
+ * - Títulos viram `#`..`######` (TITLE -> `#`, SUBTITLE -> `##`).
+ * - Sublinhado, sem equivalente em Markdown, vira `<u>...</u>`.
+ * - Tabelas viram tabelas GFM, usando a primeira linha como cabeçalho.
+ *
+ * @param doc Payload retornado por `GoogleDocsApi.getById`.
+ */
+function documentToMarkdown(doc: DocsDocument): string {
+  const md = blocksToMarkdown(doc, doc?.body?.content ?? []);
+  return md ? md + "\n" : "";
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function runToHtml(run: Run): string {
+  const { style } = run;
+  let out = escapeHtml(run.text).replace(/\n/g, "<br>");
+
+  if (isCode(style)) out = `<code>${out}</code>`;
+  if (style.strikethrough) out = `<s>${out}</s>`;
+  if (style.underline && !style.link?.url) out = `<u>${out}</u>`;
+  if (style.italic) out = `<em>${out}</em>`;
+  if (style.bold) out = `<strong>${out}</strong>`;
+  if (style.link?.url) {
+    out = `<a href="${escapeHtml(style.link.url)}">${out}</a>`;
+  }
+
+  return out;
+}
+
+function paragraphToHtml(p: DocsParagraph): string {
+  return paragraphRuns(p).map(runToHtml).join("");
+}
+
+function tableToHtml(doc: DocsDocument, table: DocsTable): string {
+  const rows = (table.tableRows ?? []).map(
+    (row) =>
+      "<tr>" +
+      (row.tableCells ?? [])
+        .map((cell) => `<td>${blocksToHtml(doc, cell.content ?? [])}</td>`)
+        .join("") +
+      "</tr>"
+  );
+  return `<table>${rows.join("")}</table>`;
+}
+
+function blocksToHtml(
+  doc: DocsDocument,
+  content: DocsStructuralElement[]
+): string {
+  const out: string[] = [];
+
+  // pilha de listas abertas: um item por nível de aninhamento
+  const openLists: { tag: "ul" | "ol"; listId: string }[] = [];
+
+  const closeLists = (depth: number) => {
+    while (openLists.length > depth) {
+      out.push(`</li></${openLists.pop()!.tag}>`);
+    }
+  };
+
+  for (const el of content) {
+    const list = el.paragraph ? listInfo(doc, el.paragraph) : null;
+
+    if (el.paragraph && list) {
+      const tag = list.ordered ? "ol" : "ul";
+
+      // outra lista ou nível mais raso: fecha o que sobrou
+      if (openLists.length > 0 && openLists[0].listId !== list.listId) {
+        closeLists(0);
+      }
+      closeLists(list.level + 1);
+
+      const current = openLists[list.level];
+      if (current && current.tag !== tag) closeLists(list.level);
+
+      if (openLists.length === list.level + 1) {
+        out.push("</li>");
+      }
+      while (openLists.length < list.level + 1) {
+        out.push(`<${tag}>`);
+        openLists.push({ tag, listId: list.listId });
+      }
+
+      out.push(`<li>${paragraphToHtml(el.paragraph)}`);
+      continue;
+    }
+
+    closeLists(0);
+
+    if (el.paragraph) {
+      const html = paragraphToHtml(el.paragraph);
+      if (!html.trim()) continue;
+
+      const level = headingLevel(el.paragraph);
+      out.push(level ? `<h${level}>${html}</h${level}>` : `<p>${html}</p>`);
+    } else if (el.table) {
+      out.push(tableToHtml(doc, el.table));
+    } else if (el.tableOfContents) {
+      out.push(
+        `<nav>${blocksToHtml(doc, el.tableOfContents.content ?? [])}</nav>`
+      );
+    }
+  }
+
+  closeLists(0);
+
+  return out.join("");
+}
+
+/**
+ * Converte o documento em um fragmento HTML (sem `<html>`/`<body>`).
+ *
+ * - Títulos viram `<h1>`..`<h6>` e parágrafos `<p>`.
+ * - Listas viram `<ul>`/`<ol>` aninhadas conforme `nestingLevel`.
+ * - Tabelas viram `<table>` com o conteúdo das células renderizado recursivamente.
+ *
+ * @param doc Payload retornado por `GoogleDocsApi.getById`.
+ */
+function documentToHtml(doc: DocsDocument): string {
+  return blocksToHtml(doc, doc?.body?.content ?? []);
+}
+
+export { documentToMarkdown, documentToHtml };
@@ -0,0 +1,104 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import { GoogleDriveApi } from "./google/drive";
+
+interface RevogarPermissaoParams {
+  fileId: string;
+
+  // identifica a permissão: permissionId, emailAddress ou domain
+  permissionId?: string;
+  emailAddress?: string;
+  domain?: string;
+}
+
+async function revogarPermissao(params: RevogarPermissaoParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.fileId) {
+      console.log(docgo.result(false, null, "fileId é obrigatório"));
+      return;
+    }
+
+    if (!params.permissionId && !params.emailAddress && !params.domain) {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          "permissionId, emailAddress ou domain é obrigatório"
+        )
+      );
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const drive = new GoogleDriveApi(google);
+
+    const permission = await drive.findPermission(params.fileId, params);
+
+    if (!permission) {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          `nenhuma permissão encontrada para ${
+            params.permissionId ?? params.emailAddress ?? params.domain
+          }`
+        )
+      );
+      return;
+    }
+
+    if (permission.role === "owner") {
+      console.log(
+        docgo.result(
+          false,
+          { permission },
+          "não é possível revogar o acesso do proprietário. Transfira a propriedade antes"
+        )
+      );
+      return;
+    }
+
+    // acesso herdado da pasta/Drive compartilhado só pode ser removido na origem
+    const inherited = permission.permissionDetails?.find((d) => d.inherited);
+    if (inherited && permission.permissionDetails!.every((d) => d.inherited)) {
+      console.log(
+        docgo.result(
+          false,
+          { permission },
+          `o acesso é herdado de ${inherited.inheritedFrom}. Revogue-o na pasta ou no Drive compartilhado de origem`
+        )
+      );
+      return;
+    }
+
+    await drive.deletePermission(params.fileId, permission.id);
+
+    console.log(
+      docgo.result(true, {
+        fileId: params.fileId,
+        revoked: permission,
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default revogarPermissao;
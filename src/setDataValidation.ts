@@ -0,0 +1,147 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import { GoogleSheetsApi } from "./google/sheets";
+import {
+  buildDataValidationRule,
+  DataValidationSpec,
+  DataValidationType,
+} from "./google/sheetValidation";
+
+interface DefinirValidacaoParams {
+  sheetId: string;
+
+  // range a validar (ex.: "D2:D", "Pedidos!F2:F100")
+  range: string;
+
+  // aba de ranges sem aba explícita (padrão: a primeira)
+  sheetName?: string;
+
+  // list | range | number | date | checkbox | formula
+  type?: DataValidationType;
+
+  // opções da lista: array, JSON ou separadas por vírgula/linha
+  values?: (string | number)[] | string;
+
+  // range com as opções (type = range), ex.: "Listas!A2:A"
+  source?: string;
+
+  min?: number | string;
+  max?: number | string;
+  formula?: string;
+
+  // rejeita valores inválidos (padrão: true)
+  strict?: boolean;
+
+  // texto de ajuda exibido ao selecionar a célula
+  message?: string;
+
+  // remove a validação do range
+  clear?: boolean;
+}
+
+/** Lista de opções como array, JSON ou texto separado por vírgula/linha. */
+function parseValues(
+  values: DefinirValidacaoParams["values"]
+): (string | number)[] | undefined {
+  if (values === undefined || values === null || values === "") {
+    return undefined;
+  }
+  if (Array.isArray(values)) return values;
+
+  const text = String(values).trim();
+  if (text.startsWith("[")) {
+    try {
+      const parsed = JSON.parse(text);
+      if (Array.isArray(parsed)) return parsed;
+    } catch {
+      // não é JSON: separa por vírgula/linha
+    }
+  }
+  return text
+    .split(/\r?\n|,/)
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+async function definirValidacao(params: DefinirValidacaoParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.sheetId) {
+      console.log(docgo.result(false, null, "sheetId é obrigatório"));
+      return;
+    }
+
+    if (!params.range?.trim()) {
+      console.log(docgo.result(false, null, "range é obrigatório"));
+      return;
+    }
+
+    const clear = params.clear === true || String(params.clear) === "true";
+
+    let spec: DataValidationSpec | null = null;
+    if (!clear) {
+      if (!params.type) {
+        console.log(docgo.result(false, null, "type é obrigatório"));
+        return;
+      }
+
+      spec = {
+        type: params.type,
+        values: parseValues(params.values),
+        source: params.source,
+        min: params.min,
+        max: params.max,
+        formula: params.formula,
+        strict: params.strict !== false && String(params.strict) !== "false",
+        message: params.message,
+      };
+
+      // erros de regra antes de acessar a planilha
+      try {
+        buildDataValidationRule(spec);
+      } catch (err: any) {
+        console.log(docgo.result(false, null, err.message));
+        return;
+      }
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const sheets = new GoogleSheetsApi(google);
+
+    await sheets.setDataValidation(
+      params.sheetId,
+      params.range.trim(),
+      spec,
+      params.sheetName || undefined
+    );
+
+    console.log(
+      docgo.result(true, {
+        spreadsheetId: params.sheetId,
+        range: params.range.trim(),
+        cleared: clear,
+        validation: spec,
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default definirValidacao;
@@ -0,0 +1,126 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import {
+  DrivePermissionRole,
+  DrivePermissionType,
+  GoogleDriveApi,
+} from "./google/drive";
+
+const SHARE_TYPES: DrivePermissionType[] = ["user", "group", "domain"];
+
+const SHARE_ROLES: DrivePermissionRole[] = [
+  "reader",
+  "commenter",
+  "writer",
+  "fileOrganizer",
+  "organizer",
+];
+
+interface CompartilharArquivoParams {
+  fileId: string;
+
+  // user (padrão), group ou domain
+  type?: DrivePermissionType;
+
+  // obrigatório para user/group
+  emailAddress?: string;
+
+  // obrigatório para domain (ex.: empresa.com.br)
+  domain?: string;
+
+  // reader (padrão), commenter, writer; fileOrganizer/organizer em Drives compartilhados
+  role?: DrivePermissionRole;
+
+  // envia email de notificação (padrão: true para user/group)
+  notify?: boolean;
+
+  // texto incluído no email de notificação
+  message?: string;
+}
+
+async function compartilharArquivo(
+  params: CompartilharArquivoParams
+): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.fileId) {
+      console.log(docgo.result(false, null, "fileId é obrigatório"));
+      return;
+    }
+
+    const type = params.type ?? "user";
+    if (!SHARE_TYPES.includes(type)) {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          `type inválido. Use: ${SHARE_TYPES.join(", ")}`
+        )
+      );
+      return;
+    }
+
+    const role = params.role ?? "reader";
+    if (!SHARE_ROLES.includes(role)) {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          `role inválido. Use: ${SHARE_ROLES.join(
+            ", "
+          )} (para transferir a propriedade use transferirPropriedade)`
+        )
+      );
+      return;
+    }
+
+    if (type === "domain" && !params.domain) {
+      console.log(
+        docgo.result(false, null, "domain é obrigatório para type domain")
+      );
+      return;
+    }
+
+    if (type !== "domain" && !params.emailAddress) {
+      console.log(docgo.result(false, null, "emailAddress é obrigatório"));
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const drive = new GoogleDriveApi(google);
+
+    const permission = await drive.createPermission(
+      params.fileId,
+      type === "domain"
+        ? { type, role, domain: params.domain }
+        : { type, role, emailAddress: params.emailAddress },
+      {
+        // o Google não aceita notificação para compartilhamento com domínio
+        sendNotificationEmail: type === "domain" ? undefined : params.notify,
+        emailMessage: params.notify === false ? undefined : params.message,
+      }
+    );
+
+    console.log(docgo.result(true, { fileId: params.fileId, permission }));
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default compartilharArquivo;
@@ -0,0 +1,174 @@
+/**
+ * Diff de texto por linhas (algoritmo de Myers), com saída estruturada e no
+ * formato unificado (`diff -u`).
+ *
+ * - quebras de linha `\r\n` e BOM UTF-8 são normalizados antes da comparação
+ * - espaços no fim das linhas são ignorados
+ *
+ * @see http://www.xmailserver.org/diff2.pdf
+ */
+
+export type DiffLineType = "equal" | "added" | "removed";
+
+export type DiffLine = {
+  type: DiffLineType;
+  text: string;
+
+  // número (base-1) da linha no texto anterior / novo
+  oldLine?: number;
+  newLine?: number;
+};
+
+export type UnifiedDiffOptions = {
+  /** Linhas de contexto ao redor de cada alteração (padrão: 3) */
+  context?: number;
+  /** Rótulos dos cabeçalhos `---` e `+++` */
+  fromLabel?: string;
+  toLabel?: string;
+};
+
+/** Linhas do texto, sem BOM, com `\n` e sem espaços no fim. */
+export function splitLines(text: string): string[] {
+  const normalized = text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  const lines = normalized.split("\n").map((l) => l.replace(/\s+$/, ""));
+  if (lines.length > 0 && lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Compara dois textos linha a linha.
+ *
+ * @returns Todas as linhas, na ordem, marcadas como iguais, adicionadas ou removidas.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+
+  // V[k] = maior x alcançado na diagonal k; antes de cada passo d, guarda
+  // as diagonais -d..d (memória proporcional a D², não a D * (N + M))
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = n === 0 && m === 0;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // refaz o caminho do fim para o início
+  const result: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const at = (k: number) => vd[k + d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      result.push({ type: "equal", text: a[x - 1], oldLine: x, newLine: y });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        result.push({ type: "added", text: b[y - 1], newLine: y });
+      } else {
+        result.push({ type: "removed", text: a[x - 1], oldLine: x });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return result.reverse();
+}
+
+/**
+ * Formata o diff no formato unificado, agrupando as alterações em blocos
+ * (`@@ -início,qtd +início,qtd @@`) com `context` linhas ao redor.
+ *
+ * @returns Texto vazio quando não há diferenças.
+ */
+export function unifiedDiff(
+  lines: DiffLine[],
+  options: UnifiedDiffOptions = {}
+): string {
+  const context = options.context ?? 3;
+  const changed = lines
+    .map((l, i) => (l.type === "equal" ? -1 : i))
+    .filter((i) => i >= 0);
+  if (changed.length === 0) return "";
+
+  // blocos [início, fim) em índices de `lines`, unindo os que se sobrepõem
+  const hunks: [number, number][] = [];
+  for (const i of changed) {
+    const start = Math.max(0, i - context);
+    const end = Math.min(lines.length, i + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else hunks.push([start, end]);
+  }
+
+  const out = [
+    `--- ${options.fromLabel ?? "anterior"}`,
+    `+++ ${options.toLabel ?? "atual"}`,
+  ];
+
+  for (const [start, end] of hunks) {
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter((l) => l.type !== "added").length;
+    const newCount = hunk.filter((l) => l.type !== "removed").length;
+
+    // linha inicial: a primeira do bloco em cada lado (ou a anterior, se vazio)
+    const oldStart =
+      hunk.find((l) => l.oldLine !== undefined)?.oldLine ??
+      lastLineBefore(lines, start, "oldLine");
+    const newStart =
+      hunk.find((l) => l.newLine !== undefined)?.newLine ??
+      lastLineBefore(lines, start, "newLine");
+
+    out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const line of hunk) {
+      const prefix =
+        line.type === "added" ? "+" : line.type === "removed" ? "-" : " ";
+      out.push(prefix + line.text);
+    }
+  }
+
+  return out.join("\n") + "\n";
+}
+
+function lastLineBefore(
+  lines: DiffLine[],
+  index: number,
+  side: "oldLine" | "newLine"
+): number {
+  for (let i = index - 1; i >= 0; i--) {
+    const n = lines[i][side];
+    if (n !== undefined) return n;
+  }
+  return 0;
+}
@@ -0,0 +1,82 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import { GoogleDriveApi } from "./google/drive";
+
+interface TransferirPropriedadeParams {
+  fileId: string;
+
+  // novo proprietário
+  emailAddress: string;
+
+  // texto incluído no email de notificação
+  message?: string;
+}
+
+async function transferirPropriedade(
+  params: TransferirPropriedadeParams
+): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.fileId) {
+      console.log(docgo.result(false, null, "fileId é obrigatório"));
+      return;
+    }
+
+    if (!params.emailAddress) {
+      console.log(docgo.result(false, null, "emailAddress é obrigatório"));
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const drive = new GoogleDriveApi(google);
+
+    const file = await drive.getById(params.fileId, "id,name,driveId,owners");
+    if (file.driveId) {
+      console.log(
+        docgo.result(
+          false,
+          { file },
+          "arquivos em Drives compartilhados pertencem ao próprio Drive e não têm proprietário individual. Use compartilharArquivo com role organizer ou fileOrganizer"
+        )
+      );
+      return;
+    }
+
+    const { permission, pending } = await drive.transferOwnership(
+      params.fileId,
+      params.emailAddress,
+      { emailMessage: params.message }
+    );
+
+    console.log(
+      docgo.result(true, {
+        fileId: params.fileId,
+        name: file.name,
+        previousOwners: file.owners ?? [],
+        permission,
+        // true: o novo proprietário precisa aceitar a transferência
+        pending,
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default transferirPropriedade;
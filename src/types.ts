@@ -2,18 +2,74 @@ export type DocumentMimeType =
   | "application/vnd.google-apps.document"
   | "application/vnd.google-apps.spreadsheet";
 
+export type DocumentFormat = "text" | "markdown";
+
+export type DocsTextStyle = {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  link?: { url?: string; headingId?: string; bookmarkId?: string };
+  weightedFontFamily?: { fontFamily?: string };
+};
+
+export type DocsParagraph = {
+  elements?: Array<{
+    startIndex?: number;
+    endIndex?: number;
+    textRun?: { content?: string; textStyle?: DocsTextStyle };
+  }>;
+  paragraphStyle?: { namedStyleType?: string };
+  bullet?: { listId?: string; nestingLevel?: number };
+};
+
+export type DocsTable = {
+  rows?: number;
+  columns?: number;
+  tableRows?: Array<{
+    tableCells?: Array<{ content?: DocsStructuralElement[] }>;
+  }>;
+};
+
+export type DocsStructuralElement = {
+  startIndex?: number;
+  endIndex?: number;
+  paragraph?: DocsParagraph;
+  table?: DocsTable;
+  tableOfContents?: { content?: DocsStructuralElement[] };
+};
+
 export type DocsDocument = {
+  documentId?: string;
+  title?: string;
   body?: {
-    content?: Array<{
-      paragraph?: {
-        elements?: Array<{
-          textRun?: { content?: string };
-        }>;
-      };
-    }>;
+    content?: DocsStructuralElement[];
   };
+  // segmentos fora do body, indexados pelo ID
+  headers?: Record<string, { content?: DocsStructuralElement[] }>;
+  footers?: Record<string, { content?: DocsStructuralElement[] }>;
+  footnotes?: Record<string, { content?: DocsStructuralElement[] }>;
+  lists?: Record<
+    string,
+    {
+      listProperties?: {
+        nestingLevels?: Array<{ glyphType?: string; glyphSymbol?: string }>;
+      };
+    }
+  >;
 };
 
+export interface DocsTableExtract {
+  /** Posição da tabela entre as tabelas do documento (base-0) */
+  index: number;
+  startIndex: number | null;
+  endIndex: number | null;
+  rows: number;
+  columns: number;
+  values: string[][];
+  csv: string;
+}
+
 export interface ServiceAccount {
   type: string;
   project_id: string;
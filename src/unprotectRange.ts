@@ -0,0 +1,79 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import { GoogleSheetsApi } from "./google/sheets";
+
+interface RemoverProtecaoParams {
+  sheetId: string;
+
+  // ID retornado por protegerIntervalo / listarProtecoes
+  protectedRangeId: number;
+}
+
+async function removerProtecao(params: RemoverProtecaoParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.sheetId) {
+      console.log(docgo.result(false, null, "sheetId é obrigatório"));
+      return;
+    }
+
+    const protectedRangeId = Number(params.protectedRangeId);
+    if (
+      params.protectedRangeId === undefined ||
+      String(params.protectedRangeId) === "" ||
+      !Number.isInteger(protectedRangeId)
+    ) {
+      console.log(docgo.result(false, null, "protectedRangeId é obrigatório"));
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const sheets = new GoogleSheetsApi(google);
+
+    const existing = (await sheets.listProtectedRanges(params.sheetId)).find(
+      (p) => p.protectedRangeId === protectedRangeId
+    );
+    if (!existing) {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          `intervalo protegido ${protectedRangeId} não encontrado`
+        )
+      );
+      return;
+    }
+
+    await sheets.deleteProtectedRange(params.sheetId, protectedRangeId);
+
+    console.log(
+      docgo.result(true, {
+        spreadsheetId: params.sheetId,
+        protectedRangeId,
+        sheetTitle: existing.sheetTitle,
+        description: existing.description ?? null,
+        removed: true,
+      })
+    );
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default removerProtecao;
@@ -1,16 +1,39 @@
 import docgo from "docgo-sdk";
 
-import { getServiceAccountCredentials } from "./utils";
+import { describeError, getServiceAccountCredentials } from "./utils";
 import { GoogleApi } from "./google/google";
 import { GoogleSheetsApi } from "./google/sheets";
 import { GoogleDocsApi } from "./google/docs";
 import { GoogleDriveApi } from "./google/drive";
+import { DocumentFormat } from "./types";
 
 interface AtualizarArquivoParams {
   documentId?: string;
   content: string;
+  format?: DocumentFormat;
+  operation?:
+    | "replace"
+    | "append"
+    | "prepend"
+    | "insertAfterText"
+    | "replaceBetween";
+
+  // para insertAfterText
+  anchor?: string;
+
+  // para replaceBetween
+  startMarker?: string;
+  endMarker?: string;
 }
 
+const OPERATIONS = [
+  "replace",
+  "append",
+  "prepend",
+  "insertAfterText",
+  "replaceBetween",
+];
+
 async function atualizarDocumento(
   params: AtualizarArquivoParams
 ): Promise<void> {
@@ -35,6 +58,46 @@ async function atualizarDocumento(
       return;
     }
 
+    if (params.format && !["text", "markdown"].includes(params.format)) {
+      console.log(
+        docgo.result(false, null, 'format deve ser "text" ou "markdown"')
+      );
+      return;
+    }
+
+    const operation = params.operation ?? "replace";
+    if (!OPERATIONS.includes(operation)) {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          `operation deve ser um de: ${OPERATIONS.join(", ")}`
+        )
+      );
+      return;
+    }
+
+    if (operation === "insertAfterText" && !params.anchor) {
+      console.log(
+        docgo.result(false, null, "anchor é obrigatório para insertAfterText")
+      );
+      return;
+    }
+
+    if (
+      operation === "replaceBetween" &&
+      (!params.startMarker || !params.endMarker)
+    ) {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          "startMarker e endMarker são obrigatórios para replaceBetween"
+        )
+      );
+      return;
+    }
+
     const credentials = getServiceAccountCredentials();
     if (!credentials) {
       console.log(docgo.result(false, null, "credencial é obrigatório"));
@@ -58,13 +121,44 @@ async function atualizarDocumento(
       return;
     }
 
-    const result = await docs.updateById(documentId, params.content);
+    const opts = { format: params.format };
+    let result: any;
+
+    if (operation === "append") {
+      result = await docs.appendById(documentId, params.content, opts);
+    } else if (operation === "prepend") {
+      result = await docs.prependById(documentId, params.content, opts);
+    } else if (operation === "insertAfterText") {
+      result = await docs.insertAfterText(
+        documentId,
+        params.anchor!,
+        params.content,
+        opts
+      );
+    } else if (operation === "replaceBetween") {
+      result = await docs.replaceBetween(
+        documentId,
+        params.startMarker!,
+        params.endMarker!,
+        params.content,
+        opts
+      );
+    } else {
+      result = await docs.updateById(documentId, params.content, opts);
+    }
+
     console.log(
-      docgo.result(true, { kind: "google-docs", file: meta, updates: result })
+      docgo.result(true, {
+        kind: "google-docs",
+        operation,
+        file: meta,
+        updates: result,
+      })
     );
     return;
   } catch (err: any) {
-    console.log(docgo.result(false, null, err?.message ?? String(err)));
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
   }
 }
 
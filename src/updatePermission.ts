@@ -0,0 +1,105 @@
+import docgo from "docgo-sdk";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import { DrivePermissionRole, GoogleDriveApi } from "./google/drive";
+
+const UPDATE_ROLES: DrivePermissionRole[] = [
+  "reader",
+  "commenter",
+  "writer",
+  "fileOrganizer",
+  "organizer",
+];
+
+interface AlterarPermissaoParams {
+  fileId: string;
+
+  // identifica a permissão: permissionId, emailAddress ou domain
+  permissionId?: string;
+  emailAddress?: string;
+  domain?: string;
+
+  role: DrivePermissionRole;
+}
+
+async function alterarPermissao(params: AlterarPermissaoParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.fileId) {
+      console.log(docgo.result(false, null, "fileId é obrigatório"));
+      return;
+    }
+
+    if (!params.permissionId && !params.emailAddress && !params.domain) {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          "permissionId, emailAddress ou domain é obrigatório"
+        )
+      );
+      return;
+    }
+
+    if (!params.role || !UPDATE_ROLES.includes(params.role)) {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          `role inválido. Use: ${UPDATE_ROLES.join(
+            ", "
+          )} (para transferir a propriedade use transferirPropriedade)`
+        )
+      );
+      return;
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const google = new GoogleApi(credentials);
+    const drive = new GoogleDriveApi(google);
+
+    let permissionId = params.permissionId;
+    if (!permissionId) {
+      const found = await drive.findPermission(params.fileId, params);
+      if (!found) {
+        console.log(
+          docgo.result(
+            false,
+            null,
+            `nenhuma permissão encontrada para ${
+              params.emailAddress ?? params.domain
+            }`
+          )
+        );
+        return;
+      }
+      permissionId = found.id;
+    }
+
+    const permission = await drive.updatePermission(
+      params.fileId,
+      permissionId,
+      { role: params.role }
+    );
+
+    console.log(docgo.result(true, { fileId: params.fileId, permission }));
+  } catch (err: any) {
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default alterarPermissao;
@@ -1,16 +1,138 @@
 import docgo from "docgo-sdk";
 
-import { getServiceAccountCredentials, parseCsv } from "./utils";
+import { describeError, getServiceAccountCredentials } from "./utils";
+import {
+  applyTypeHints,
+  convertValue,
+  CsvDelimiter,
+  CsvTypeHint,
+  parseCsv,
+} from "./csv";
 import { GoogleApi } from "./google/google";
-import { GoogleSheetsApi } from "./google/sheets";
+import { quoteSheetName } from "./google/a1";
+import { GoogleSheetsApi, objectsToRows } from "./google/sheets";
 import { GoogleDriveApi } from "./google/drive";
 
+type UpdateMode = "overwrite" | "append" | "upsert";
+
+type Cell = string | number | boolean;
+
+type Content = string | Record<string, unknown>[] | Cell[][];
+
+type ParsedContent =
+  | { kind: "objects"; records: Record<string, unknown>[] }
+  | { kind: "rows"; rows: string[][] }
+  | { kind: "values"; values: Cell[][] };
+
+const MODES: UpdateMode[] = ["overwrite", "append", "upsert"];
+
 interface Params {
   sheetId?: string;
-  content: string;
+
+  // CSV ou lista de objetos (array ou string JSON) mapeados pelo cabeçalho
+  content?: Content;
+
+  // vários ranges em uma única chamada (values.batchUpdate):
+  // [{ "range": "Resumo!B2", "content": "10" }, { "range": "Metas", "content": [...] }]
+  updates?: { range: string; content: Content }[] | string;
 
   // para usar em spredsheet
   range?: string;
+
+  // overwrite (padrão): grava em `range`; append: acrescenta após a última linha;
+  // upsert: atualiza as linhas com as mesmas `keys` e acrescenta as novas
+  mode?: UpdateMode;
+
+  // aba usada em append/upsert (padrão: a primeira)
+  sheetName?: string;
+
+  // colunas chave do upsert: ["id"] ou "cliente,mes"
+  keys?: string[] | string;
+
+  // delimitador do CSV (padrão: detecta entre `,` `;` e tab)
+  delimiter?: CsvDelimiter | "auto";
+
+  // a primeira linha do CSV é o cabeçalho (padrão: true)
+  header?: boolean;
+
+  // tipo por coluna (nome do cabeçalho ou letra): { "cep": "string", "valor": "number" }
+  types?: Record<string, CsvTypeHint> | string;
+}
+
+/**
+ * Interpreta `content`: lista de objetos, matriz (array ou JSON) ou CSV.
+ */
+function parseContent(
+  content: Content,
+  delimiter?: Params["delimiter"]
+): ParsedContent {
+  let value: unknown = content;
+
+  if (typeof value === "string" && value.trim().startsWith("[")) {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      // não é JSON: segue como CSV
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (value.every((r) => Array.isArray(r))) {
+      return { kind: "values", values: value };
+    }
+    if (!value.every((r) => r && typeof r === "object" && !Array.isArray(r))) {
+      throw new Error("content deve ser uma lista de objetos ou um CSV");
+    }
+    return { kind: "objects", records: value };
+  }
+
+  return {
+    kind: "rows",
+    rows: parseCsv(value == null ? "" : String(value), { delimiter }),
+  };
+}
+
+/** Dicas de tipo nos objetos: por chave, apenas em valores de texto. */
+function applyRecordTypes(
+  records: Record<string, unknown>[],
+  types: Record<string, CsvTypeHint>
+): Record<string, unknown>[] {
+  return records.map((record) =>
+    Object.fromEntries(
+      Object.entries(record).map(([k, v]) => [
+        k,
+        typeof v === "string" && types[k] ? convertValue(v, types[k]) : v,
+      ])
+    )
+  );
+}
+
+/**
+ * Matriz a gravar a partir de um range: objetos viram cabeçalho (união das
+ * chaves) + linhas; CSV recebe as dicas de tipo; matrizes vão como estão.
+ */
+function contentToValues(
+  input: ParsedContent,
+  types: Record<string, CsvTypeHint>,
+  hasHeader: boolean
+): Cell[][] {
+  if (input.kind === "values") return input.values;
+  if (input.kind === "rows")
+    return applyTypeHints(input.rows, types, hasHeader);
+
+  const records = applyRecordTypes(input.records, types);
+  const headers = Array.from(new Set(records.flatMap((r) => Object.keys(r))));
+  return [headers, ...objectsToRows(headers, records)];
+}
+
+/** CSV com cabeçalho na primeira linha -> objetos. */
+function rowsToRecords(rows: Cell[][]): Record<string, unknown>[] {
+  const [headers = [], ...body] = rows;
+  return body.map((row) => {
+    const record: Record<string, unknown> = {};
+    headers.forEach((h, i) => (record[String(h)] = row[i] ?? ""));
+    return record;
+  });
 }
 
 async function atualizarPlanilha(params: Params): Promise<void> {
@@ -30,11 +152,115 @@ async function atualizarPlanilha(params: Params): Promise<void> {
       return;
     }
 
-    if (!params?.content) {
+    let updates: { range: string; content: Content }[] | null = null;
+    if (params.updates) {
+      try {
+        updates =
+          typeof params.updates === "string"
+            ? JSON.parse(params.updates)
+            : params.updates;
+      } catch {
+        console.log(
+          docgo.result(false, null, "updates deve ser um JSON válido")
+        );
+        return;
+      }
+
+      if (
+        !Array.isArray(updates) ||
+        updates.length === 0 ||
+        updates.some((u) => !u?.range || u.content == null)
+      ) {
+        console.log(
+          docgo.result(
+            false,
+            null,
+            "updates deve ser uma lista de { range, content }"
+          )
+        );
+        return;
+      }
+    } else if (!params.content || params.content.length === 0) {
       console.log(docgo.result(false, null, "content é obrigatório"));
       return;
     }
 
+    const mode = params.mode ?? "overwrite";
+    if (!MODES.includes(mode)) {
+      console.log(
+        docgo.result(false, null, `mode inválido. Use: ${MODES.join(", ")}`)
+      );
+      return;
+    }
+
+    // updates grava cada range com values.batchUpdate (sobrescreve)
+    if (updates && mode !== "overwrite") {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          `updates só pode ser usado no modo overwrite (recebido: ${mode})`
+        )
+      );
+      return;
+    }
+
+    const keys = (
+      Array.isArray(params.keys) ? params.keys : (params.keys ?? "").split(",")
+    )
+      .map((k) => String(k).trim())
+      .filter(Boolean);
+
+    if (mode === "upsert" && keys.length === 0) {
+      console.log(
+        docgo.result(false, null, "keys é obrigatório no modo upsert")
+      );
+      return;
+    }
+
+    let types: Record<string, CsvTypeHint> = {};
+    if (params.types) {
+      try {
+        types =
+          typeof params.types === "string"
+            ? JSON.parse(params.types)
+            : params.types;
+      } catch {
+        console.log(docgo.result(false, null, "types deve ser um JSON válido"));
+        return;
+      }
+    }
+
+    const hasHeader =
+      params.header !== false && String(params.header) !== "false";
+
+    let inputs: { range: string; input: ParsedContent }[];
+    try {
+      inputs = updates
+        ? updates.map((u) => ({
+            range: u.range,
+            input: parseContent(u.content, params.delimiter),
+          }))
+        : [
+            {
+              range: params.range ?? "A1",
+              input: parseContent(params.content!, params.delimiter),
+            },
+          ];
+    } catch (err: any) {
+      console.log(docgo.result(false, null, err.message));
+      return;
+    }
+
+    // append/upsert trabalham com registros mapeados pelo cabeçalho
+    const input = inputs[0].input;
+    const records =
+      input.kind === "objects"
+        ? applyRecordTypes(input.records, types)
+        : hasHeader
+        ? rowsToRecords(contentToValues(input, types, hasHeader))
+        : null;
+
     const credentials = getServiceAccountCredentials();
     if (!credentials) {
       console.log(docgo.result(false, null, "credencial é obrigatório"));
@@ -68,21 +294,143 @@ async function atualizarPlanilha(params: Params): Promise<void> {
       return;
     }
 
-    const rangeA1 = params.range ?? "A1";
+    if (updates) {
+      const data = inputs.map(({ range, input }) => ({
+        range,
+        values: contentToValues(input, types, hasHeader),
+      }));
+      const response = await sheets.valuesBatchUpdate(sheetId, data);
+
+      // resultado por range, na ordem informada
+      const byRange: Record<string, unknown> = {};
+      data.forEach(({ range }, i) => {
+        byRange[range] = response?.responses?.[i] ?? null;
+      });
+
+      console.log(
+        docgo.result(true, {
+          kind: "google-sheets",
+          file: meta,
+          mode: "batch",
+          totalUpdatedCells: response?.totalUpdatedCells ?? 0,
+          ranges: byRange,
+        })
+      );
+      return;
+    }
+
+    if (mode === "overwrite") {
+      const rangeA1 = inputs[0].range;
+      const values = contentToValues(input, types, hasHeader);
+      const result = await sheets.valuesUpdate(sheetId, rangeA1, values);
+
+      console.log(
+        docgo.result(true, {
+          kind: "google-sheets",
+          file: meta,
+          mode,
+          range: rangeA1,
+          updates: result,
+        })
+      );
+      return;
+    }
+
+    const sheetName =
+      params.sheetName ?? (await sheets.getSheets(sheetId))[0]?.title;
+    if (!sheetName) {
+      console.log(
+        docgo.result(false, { file: meta }, "a planilha não possui abas")
+      );
+      return;
+    }
+
+    if (mode === "upsert") {
+      if (!records) {
+        console.log(
+          docgo.result(
+            false,
+            null,
+            "o modo upsert exige cabeçalho na primeira linha do CSV"
+          )
+        );
+        return;
+      }
+
+      const result = await sheets.upsertRows(sheetId, sheetName, records, keys);
+
+      console.log(
+        docgo.result(true, {
+          kind: "google-sheets",
+          file: meta,
+          mode,
+          sheetName,
+          keys,
+          updated: result.updatedRows.length,
+          appended: result.appendedRows.length,
+          updatedRows: result.updatedRows,
+          appendedRows: result.appendedRows,
+          headers: result.headers,
+          updates: result.response,
+        })
+      );
+      return;
+    }
+
+    // append: registros seguem o cabeçalho da aba (ou criam um, se vazia);
+    // CSV sem cabeçalho é acrescentado como está
+    const tableRange = params.range ?? `${quoteSheetName(sheetName)}!A1`;
+    let values: Cell[][];
+
+    if (records) {
+      const current = await sheets.getValues(
+        sheetId,
+        `${quoteSheetName(sheetName)}!1:1`
+      );
+      const headers: string[] = (current?.values?.[0] ?? []).map((h: any) =>
+        String(h).trim()
+      );
+
+      if (headers.length === 0) {
+        headers.push(...new Set(records.flatMap((r) => Object.keys(r))));
+        values = [headers, ...objectsToRows(headers, records)];
+      } else {
+        const unknown = Array.from(
+          new Set(records.flatMap((r) => Object.keys(r)))
+        ).filter((k) => !headers.includes(k));
+        if (unknown.length > 0) {
+          console.log(
+            docgo.result(
+              false,
+              { headers },
+              `coluna(s) inexistente(s) no cabeçalho da aba: ${unknown.join(
+                ", "
+              )}`
+            )
+          );
+          return;
+        }
+        values = objectsToRows(headers, records);
+      }
+    } else {
+      values = contentToValues(input, types, hasHeader);
+    }
 
-    const values = parseCsv(params.content);
-    const updates = await sheets.valuesUpdate(sheetId, rangeA1, values);
+    const appended = await sheets.valuesAppend(sheetId, tableRange, values);
 
     console.log(
       docgo.result(true, {
         kind: "google-sheets",
         file: meta,
-        range: rangeA1,
-        updates,
+        mode,
+        range: appended?.updates?.updatedRange ?? tableRange,
+        appended: appended?.updates?.updatedRows ?? values.length,
+        updates: appended,
       })
     );
   } catch (err: any) {
-    console.log(docgo.result(false, null, err?.message ?? String(err)));
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
   }
 }
 
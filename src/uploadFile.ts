@@ -0,0 +1,157 @@
+import docgo from "docgo-sdk";
+import { readFile } from "fs/promises";
+import { basename, extname } from "path";
+
+import { describeError, getServiceAccountCredentials } from "./utils";
+import { GoogleApi } from "./google/google";
+import {
+  CONVERSION_TARGETS,
+  DriveUploadMetadata,
+  GoogleDriveApi,
+  UPLOAD_MIME_TYPES,
+} from "./google/drive";
+
+interface EnviarArquivoParams {
+  sharedDriveId: string;
+
+  // arquivo local; alternativa: `content` (base64) + `fileName`
+  filePath?: string;
+  content?: string;
+  fileName?: string;
+
+  // nome no Drive (padrão: nome do arquivo)
+  name?: string;
+
+  // MIME do conteúdo (padrão: deduzido pela extensão)
+  mimeType?: string;
+
+  // converte para Google Docs / Sheets / Slides
+  convert?: boolean;
+
+  // padrão: multipart até 5MB, resumable acima disso
+  uploadType?: "multipart" | "resumable";
+  chunkSize?: number;
+}
+
+async function enviarArquivo(params: EnviarArquivoParams): Promise<void> {
+  try {
+    if (
+      Array.isArray(params) &&
+      params.length === 1 &&
+      typeof params[0] === "object"
+    ) {
+      params = params[0] as any;
+    }
+
+    if (!params?.sharedDriveId) {
+      console.log(docgo.result(false, null, "sharedDriveId é obrigatório"));
+      return;
+    }
+
+    if (!params.filePath && !params.content) {
+      console.log(
+        docgo.result(false, null, "filePath ou content é obrigatório")
+      );
+      return;
+    }
+
+    if (!params.filePath && !params.fileName && !params.name) {
+      console.log(
+        docgo.result(false, null, "fileName é obrigatório ao usar content")
+      );
+      return;
+    }
+
+    if (
+      params.uploadType &&
+      params.uploadType !== "multipart" &&
+      params.uploadType !== "resumable"
+    ) {
+      console.log(
+        docgo.result(
+          false,
+          null,
+          "uploadType inválido. Use: multipart, resumable"
+        )
+      );
+      return;
+    }
+
+    const fileName = params.filePath
+      ? basename(params.filePath)
+      : params.fileName || params.name!;
+
+    const extension = extname(fileName).slice(1).toLowerCase();
+    const mimeType =
+      params.mimeType ||
+      UPLOAD_MIME_TYPES[extension] ||
+      "application/octet-stream";
+
+    const metadata: DriveUploadMetadata = {
+      name: params.name || fileName,
+      parents: [params.sharedDriveId],
+    };
+
+    if (params.convert) {
+      const target = CONVERSION_TARGETS[mimeType];
+      if (!target) {
+        console.log(
+          docgo.result(
+            false,
+            null,
+            `arquivos do tipo ${mimeType} não podem ser convertidos para um formato Google`
+          )
+        );
+        return;
+      }
+      metadata.mimeType = target;
+
+      // o Google mantém a extensão no nome do arquivo convertido
+      if (!params.name && extension) {
+        metadata.name = fileName.slice(0, -(extension.length + 1));
+      }
+    }
+
+    const credentials = getServiceAccountCredentials();
+    if (!credentials) {
+      console.log(docgo.result(false, null, "credencial é obrigatório"));
+      return;
+    }
+
+    const data = params.filePath
+      ? await readFile(params.filePath)
+      : Buffer.from(params.content!, "base64");
+
+    const google = new GoogleApi(credentials);
+    const drive = new GoogleDriveApi(google);
+
+    const file = await drive.upload(metadata, data, mimeType, {
+      uploadType: params.uploadType,
+      chunkSize: params.chunkSize,
+      fields: "id,name,mimeType,size,parents,webViewLink",
+    });
+
+    console.log(
+      docgo.result(true, {
+        id: file.id,
+        name: file.name,
+        mimeType: file.mimeType,
+        converted: !!metadata.mimeType,
+        sourceMimeType: mimeType,
+        size: data.length,
+        file,
+      })
+    );
+  } catch (err: any) {
+    if (err?.code === "ENOENT") {
+      console.log(
+        docgo.result(false, null, `arquivo não encontrado: ${err.path}`)
+      );
+      return;
+    }
+    const { message, data } = describeError(err);
+    console.log(docgo.result(false, data, message));
+  }
+}
+
+export default enviarArquivo;
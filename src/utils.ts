@@ -1,6 +1,14 @@
 import docgo from "docgo-sdk";
 
-import { DocsDocument, ServiceAccount } from "./types";
+import { stringifyCsv } from "./csv";
+import { GoogleApiError } from "./google/errors";
+import {
+  DocsDocument,
+  DocsParagraph,
+  DocsStructuralElement,
+  DocsTableExtract,
+  ServiceAccount,
+} from "./types";
 
 function getServiceAccountCredentials(): ServiceAccount | null {
   const credsString =
@@ -28,33 +36,150 @@ function parseToBase64Url(input: string | Buffer): string {
     .replace(/=+$/g, "");
 }
 
-function parseCsv(csv: string): string[][] {
-  return csv
-    .trim()
-    .split(/\r?\n/)
-    .filter(Boolean)
-    .map((line) => line.split(",").map((v) => v.trim()));
+function paragraphText(paragraph: DocsParagraph | undefined): string {
+  const parts: string[] = [];
+  for (const el of paragraph?.elements ?? []) {
+    const text = el.textRun?.content;
+    if (typeof text === "string") parts.push(text);
+  }
+  return parts.join("");
 }
 
-function extractPlainText(doc: DocsDocument): string {
+/**
+ * Texto de uma célula de tabela, sem a quebra de linha final
+ * (cada célula termina com o "\n" do seu último parágrafo).
+ */
+function tableCellText(content: DocsStructuralElement[] = []): string {
+  return extractElementsText(content).replace(/\n$/, "");
+}
+
+function extractElementsText(content: DocsStructuralElement[]): string {
   const parts: string[] = [];
-  const content = doc?.body?.content ?? [];
 
   for (const block of content) {
-    const elements = block.paragraph?.elements ?? [];
-    for (const el of elements) {
-      const text = el.textRun?.content;
-      if (typeof text === "string") parts.push(text);
+    if (block.paragraph) {
+      parts.push(paragraphText(block.paragraph));
+    } else if (block.table) {
+      // uma linha por linha da tabela, células separadas por tab
+      for (const row of block.table.tableRows ?? []) {
+        const cells = (row.tableCells ?? []).map((cell) =>
+          tableCellText(cell.content).replace(/\n/g, " ")
+        );
+        parts.push(cells.join("\t") + "\n");
+      }
+    } else if (block.tableOfContents) {
+      parts.push(extractElementsText(block.tableOfContents.content ?? []));
     }
   }
 
+  return parts.join("");
+}
+
+function extractPlainText(doc: DocsDocument): string {
+  const content = doc?.body?.content ?? [];
+
   // o Docs usa \u000b (vertical tab) às vezes em quebras/formatos — normalize
-  return parts.join("").replace(/\u000b/g, "\n");
+  return extractElementsText(content).replace(/\u000b/g, "\n");
+}
+
+/**
+ * Texto do body seguido do texto de cabeçalhos, rodapés e notas de rodapé
+ * (um bloco por segmento).
+ */
+function extractAllText(doc: DocsDocument): string {
+  const segments = [
+    ...Object.values(doc?.headers ?? {}),
+    ...Object.values(doc?.footers ?? {}),
+    ...Object.values(doc?.footnotes ?? {}),
+  ];
+  return [
+    extractPlainText(doc),
+    ...segments.map((s) =>
+      extractElementsText(s.content ?? []).replace(/\u000b/g, "\n")
+    ),
+  ].join("\n");
+}
+
+/**
+ * Extrai todas as tabelas do documento (inclusive tabelas aninhadas em
+ * células), na ordem em que aparecem.
+ *
+ * Cada tabela retorna os valores como matriz de strings (linhas x colunas),
+ * o mesmo conteúdo em CSV e a posição no documento (`startIndex`/`endIndex`).
+ */
+function extractTables(doc: DocsDocument): DocsTableExtract[] {
+  const tables: DocsTableExtract[] = [];
+
+  const walk = (content: DocsStructuralElement[]) => {
+    for (const block of content) {
+      if (block.table) {
+        const values = (block.table.tableRows ?? []).map((row) =>
+          (row.tableCells ?? []).map((cell) =>
+            tableCellText(cell.content).replace(/\u000b/g, "\n")
+          )
+        );
+
+        tables.push({
+          index: tables.length,
+          startIndex: block.startIndex ?? null,
+          endIndex: block.endIndex ?? null,
+          rows: values.length,
+          columns: Math.max(0, ...values.map((r) => r.length)),
+          values,
+          csv: stringifyCsv(values),
+        });
+
+        for (const row of block.table.tableRows ?? []) {
+          for (const cell of row.tableCells ?? []) walk(cell.content ?? []);
+        }
+      } else if (block.tableOfContents) {
+        walk(block.tableOfContents.content ?? []);
+      }
+    }
+  };
+
+  walk(doc?.body?.content ?? []);
+
+  return tables;
+}
+
+/**
+ * Localiza placeholders no formato `{{chave}}` (espaços internos são aceitos,
+ * ex.: `{{ cliente }}`).
+ *
+ * @returns Mapa chave -> variações exatas encontradas no texto.
+ */
+function findPlaceholders(text: string): Map<string, Set<string>> {
+  const found = new Map<string, Set<string>>();
+
+  for (const m of text.matchAll(/\{\{\s*([\w.-]+)\s*\}\}/g)) {
+    const key = m[1];
+    if (!found.has(key)) found.set(key, new Set());
+    found.get(key)!.add(m[0]);
+  }
+
+  return found;
+}
+
+/**
+ * Converte um erro capturado em mensagem + payload para `docgo.result(false, ...)`.
+ *
+ * Para `GoogleApiError`, a mensagem é a dica acionável (`hint`) e o payload
+ * traz os detalhes do erro do Google; demais erros seguem só com a mensagem.
+ */
+function describeError(err: any): { message: string; data: any } {
+  if (err instanceof GoogleApiError) {
+    return { message: err.hint, data: { error: err.toJSON() } };
+  }
+  return { message: err?.message ?? String(err), data: null };
 }
 
 export {
   getServiceAccountCredentials,
   parseToBase64Url,
-  parseCsv,
+  extractAllText,
   extractPlainText,
+  extractTables,
+  findPlaceholders,
+  describeError,
 };